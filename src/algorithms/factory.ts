@@ -0,0 +1,109 @@
+import { TokenBucket } from './token-bucket';
+import { SlidingWindowLog } from './sliding-window-log';
+import { SlidingWindowCounter } from './sliding-window-counter';
+import { FixedWindow } from './fixed-window';
+import { Gcra } from './gcra';
+import type {
+  RateLimiterOptions,
+  TokenBucketOptions,
+  WindowOptions,
+  FixedWindowOptions,
+  StatefulAlgorithm,
+} from './types';
+import type { StorageAdapter } from '../storage/types';
+
+/**
+ * Algorithm selection and its options
+ */
+export type AlgorithmConfig =
+  | ({
+      /** Token bucket: bursts up to `capacity`, refilled over time (default) */
+      algorithm?: 'token-bucket';
+    } & TokenBucketOptions)
+  | ({
+      /** Sliding window log: at most `capacity` requests in any rolling `windowMs` */
+      algorithm: 'sliding-window-log';
+    } & WindowOptions)
+  | ({
+      /** Sliding window counter: approximate rolling window with constant state */
+      algorithm: 'sliding-window-counter';
+    } & WindowOptions)
+  | ({
+      /** Fixed window: at most `capacity` requests per wall-clock aligned window */
+      algorithm: 'fixed-window';
+    } & FixedWindowOptions)
+  | ({
+      /** GCRA: smooth pacing at `refillRate` per `refillInterval`, bursts up to `capacity` */
+      algorithm: 'gcra';
+    } & RateLimiterOptions);
+
+export type AlgorithmName = NonNullable<AlgorithmConfig['algorithm']>;
+
+/**
+ * Create the algorithm selected by the config
+ */
+export function createAlgorithm(
+  config: AlgorithmConfig,
+  storage: StorageAdapter
+): StatefulAlgorithm {
+  switch (config.algorithm) {
+    case 'sliding-window-log':
+      return new SlidingWindowLog(
+        { capacity: config.capacity, windowMs: config.windowMs },
+        storage
+      );
+    case 'sliding-window-counter':
+      return new SlidingWindowCounter(
+        { capacity: config.capacity, windowMs: config.windowMs },
+        storage
+      );
+    case 'fixed-window':
+      return new FixedWindow(
+        {
+          capacity: config.capacity,
+          windowMs: config.windowMs,
+          utcOffsetMinutes: config.utcOffsetMinutes,
+        },
+        storage
+      );
+    case 'gcra':
+      return new Gcra(
+        {
+          capacity: config.capacity,
+          refillRate: config.refillRate,
+          refillInterval: config.refillInterval,
+        },
+        storage
+      );
+    case 'token-bucket':
+    case undefined:
+      return new TokenBucket(
+        {
+          capacity: config.capacity,
+          refillRate: config.refillRate,
+          refillInterval: config.refillInterval,
+          refillMode: config.refillMode,
+          resolveLimits: config.resolveLimits,
+          resolveCacheMs: config.resolveCacheMs,
+        },
+        storage
+      );
+  }
+}
+
+/**
+ * Length in ms of the window the config's `capacity` applies to
+ * (for refilling algorithms, the time to refill from empty to full)
+ */
+export function windowMsFor(config: AlgorithmConfig): number {
+  switch (config.algorithm) {
+    case 'sliding-window-log':
+    case 'sliding-window-counter':
+    case 'fixed-window':
+      return config.windowMs;
+    case 'gcra':
+    case 'token-bucket':
+    case undefined:
+      return Math.ceil((config.capacity / config.refillRate) * config.refillInterval);
+  }
+}
@@ -0,0 +1,178 @@
+import type {
+  RateLimitResult,
+  FixedWindowOptions,
+  RateLimitStatus,
+  StatefulAlgorithm,
+  Evaluation,
+} from './types';
+import type { StorageAdapter, FixedWindowState } from '../storage/types';
+
+/**
+ * Fixed Window rate limiting algorithm
+ *
+ * - Counts requests in windows of `windowMs` aligned to wall-clock
+ *   boundaries (e.g. on the hour), shifted by an optional UTC offset
+ * - Allows at most `capacity` requests per window
+ * - The count resets at the end of each window
+ */
+export class FixedWindow implements StatefulAlgorithm<FixedWindowState> {
+  private readonly capacity: number;
+  private readonly windowMs: number;
+  private readonly offsetMs: number;
+  private readonly storage: StorageAdapter;
+
+  constructor(options: FixedWindowOptions, storage: StorageAdapter) {
+    this.capacity = options.capacity;
+    this.windowMs = options.windowMs;
+    this.offsetMs = (options.utcOffsetMinutes ?? 0) * 60000;
+    this.storage = storage;
+  }
+
+  /**
+   * Calculate the start of the window containing `now`
+   */
+  private calculateWindowStart(now: number): number {
+    const local = now + this.offsetMs;
+    const elapsed = ((local % this.windowMs) + this.windowMs) % this.windowMs;
+    return now - elapsed;
+  }
+
+  /**
+   * Get the count for the window containing `now`
+   */
+  private currentState(state: FixedWindowState | null, now: number): FixedWindowState {
+    const windowStart = this.calculateWindowStart(now);
+    if (!state || state.windowStart !== windowStart) {
+      return { windowStart, count: 0 };
+    }
+    return state;
+  }
+
+  /**
+   * Build the rate limit result
+   */
+  private buildResult(
+    allowed: boolean,
+    state: FixedWindowState,
+    now: number
+  ): RateLimitResult {
+    const resetAt = state.windowStart + this.windowMs;
+    const result: RateLimitResult = {
+      allowed,
+      remaining: Math.max(0, this.capacity - state.count),
+      resetAt,
+    };
+
+    if (!allowed) {
+      result.retryAt = Math.max(now, resetAt);
+      result.retryAfter = Math.ceil((result.retryAt - now) / 1000);
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the status of a key from its stored state
+   */
+  private buildStatus(
+    state: FixedWindowState | null,
+    now: number
+  ): RateLimitStatus<FixedWindowState> {
+    const { remaining, resetAt } = this.peek(state, now);
+    return { capacity: this.capacity, remaining, resetAt, state };
+  }
+
+  /**
+   * Add or remove tokens in a single atomic step
+   */
+  private async applyAdjustment(
+    key: string,
+    tokens: number
+  ): Promise<RateLimitStatus<FixedWindowState>> {
+    const now = Date.now();
+    const state = await this.storage.update<FixedWindowState>(
+      key,
+      (existing) => this.adjust(existing, tokens, now),
+      this.ttlFor(now)
+    );
+    return this.buildStatus(state, now);
+  }
+
+  peek(existing: FixedWindowState | null, now: number): RateLimitResult {
+    const state = this.currentState(existing, now);
+    return this.buildResult(state.count < this.capacity, state, now);
+  }
+
+  evaluate(
+    existing: FixedWindowState | null,
+    tokens: number,
+    now: number
+  ): Evaluation<FixedWindowState> {
+    const state = this.currentState(existing, now);
+
+    if (state.count + tokens > this.capacity) {
+      // Window is full - don't count the request
+      return { result: this.buildResult(false, state, now), state: null };
+    }
+
+    const next = { windowStart: state.windowStart, count: state.count + tokens };
+    return { result: this.buildResult(true, next, now), state: next };
+  }
+
+  adjust(
+    existing: FixedWindowState | null,
+    tokens: number,
+    now: number
+  ): FixedWindowState | null {
+    if (!existing && tokens >= 0) {
+      // Nothing counted - nothing to give back
+      return null;
+    }
+    const state = this.currentState(existing, now);
+    const count = Math.min(this.capacity, Math.max(0, state.count - tokens));
+
+    return { windowStart: state.windowStart, count };
+  }
+
+  ttlFor(now: number): number {
+    // Count is only needed until the window ends
+    return this.calculateWindowStart(now) + this.windowMs - now;
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.peek(await this.storage.get<FixedWindowState>(key), Date.now());
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result!: RateLimitResult;
+
+    await this.storage.update<FixedWindowState>(
+      key,
+      (existing) => {
+        const evaluation = this.evaluate(existing, tokens, now);
+        result = evaluation.result;
+        return evaluation.state;
+      },
+      this.ttlFor(now)
+    );
+
+    return result;
+  }
+
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus<FixedWindowState>> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus<FixedWindowState>> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus<FixedWindowState>> {
+    return this.buildStatus(await this.storage.get<FixedWindowState>(key), Date.now());
+  }
+}
@@ -0,0 +1,155 @@
+import type {
+  RateLimitResult,
+  RateLimiterOptions,
+  RateLimitStatus,
+  StatefulAlgorithm,
+  Evaluation,
+} from './types';
+import type { StorageAdapter, GcraState } from '../storage/types';
+
+// Absorbs floating point error when dividing by fractional emission intervals
+const EPSILON = 1e-9;
+
+/**
+ * Generic Cell Rate Algorithm (GCRA)
+ *
+ * - Requests are paced at one per `refillInterval / refillRate` ms
+ * - Up to `capacity` requests may arrive at once (burst tolerance)
+ * - Stores a single theoretical arrival time per key
+ * - Equivalent to a continuously refilling token bucket
+ */
+export class Gcra implements StatefulAlgorithm<GcraState> {
+  private readonly capacity: number;
+  private readonly emissionInterval: number;
+  private readonly burstTolerance: number;
+  private readonly storage: StorageAdapter;
+
+  constructor(options: RateLimiterOptions, storage: StorageAdapter) {
+    this.capacity = options.capacity;
+    this.emissionInterval = options.refillInterval / options.refillRate;
+    this.burstTolerance = options.capacity * this.emissionInterval;
+    this.storage = storage;
+  }
+
+  /**
+   * Get the theoretical arrival time, never in the past
+   */
+  private currentTat(state: GcraState | null, now: number): number {
+    return Math.max(state?.tat ?? now, now);
+  }
+
+  /**
+   * Build the rate limit result
+   */
+  private buildResult(allowed: boolean, tat: number, allowAt: number, now: number): RateLimitResult {
+    const remaining = Math.floor(
+      (this.burstTolerance - (tat - now)) / this.emissionInterval + EPSILON
+    );
+    const result: RateLimitResult = {
+      allowed,
+      remaining: Math.min(this.capacity, Math.max(0, remaining)),
+      resetAt: tat,
+    };
+
+    if (!allowed) {
+      result.retryAt = Math.max(now, allowAt);
+      result.retryAfter = (result.retryAt - now) / 1000;
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the status of a key from its stored state
+   */
+  private buildStatus(state: GcraState | null, now: number): RateLimitStatus<GcraState> {
+    const { remaining, resetAt } = this.peek(state, now);
+    return { capacity: this.capacity, remaining, resetAt, state };
+  }
+
+  /**
+   * Add or remove tokens in a single atomic step
+   */
+  private async applyAdjustment(key: string, tokens: number): Promise<RateLimitStatus<GcraState>> {
+    const now = Date.now();
+    const state = await this.storage.update<GcraState>(
+      key,
+      (existing) => this.adjust(existing, tokens, now),
+      this.ttlFor()
+    );
+    return this.buildStatus(state, now);
+  }
+
+  peek(state: GcraState | null, now: number): RateLimitResult {
+    const tat = this.currentTat(state, now);
+    const allowAt = tat + this.emissionInterval - this.burstTolerance;
+
+    return this.buildResult(allowAt <= now + EPSILON, tat, allowAt, now);
+  }
+
+  evaluate(state: GcraState | null, tokens: number, now: number): Evaluation<GcraState> {
+    const tat = this.currentTat(state, now);
+    const newTat = tat + tokens * this.emissionInterval;
+    const allowAt = newTat - this.burstTolerance;
+
+    if (allowAt > now + EPSILON) {
+      // Arriving too early - don't move the arrival time
+      return { result: this.buildResult(false, tat, allowAt, now), state: null };
+    }
+
+    return { result: this.buildResult(true, newTat, allowAt, now), state: { tat: newTat } };
+  }
+
+  adjust(state: GcraState | null, tokens: number, now: number): GcraState | null {
+    if (!state && tokens >= 0) {
+      // No arrival time stored - the full burst is already available
+      return null;
+    }
+    const tat = this.currentTat(state, now) - tokens * this.emissionInterval;
+
+    // From "full burst available" (now) to "empty" (a full burst ahead)
+    return { tat: Math.min(now + this.burstTolerance, Math.max(now, tat)) };
+  }
+
+  ttlFor(): number {
+    // An allowed arrival time is never more than the burst tolerance ahead
+    return Math.ceil(this.burstTolerance);
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.peek(await this.storage.get<GcraState>(key), Date.now());
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result!: RateLimitResult;
+
+    await this.storage.update<GcraState>(
+      key,
+      (existing) => {
+        const evaluation = this.evaluate(existing, tokens, now);
+        result = evaluation.result;
+        return evaluation.state;
+      },
+      this.ttlFor()
+    );
+
+    return result;
+  }
+
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus<GcraState>> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus<GcraState>> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus<GcraState>> {
+    return this.buildStatus(await this.storage.get<GcraState>(key), Date.now());
+  }
+}
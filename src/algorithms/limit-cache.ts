@@ -0,0 +1,69 @@
+interface CacheEntry<TLimits> {
+  limits: Promise<TLimits>;
+  expiresAt: number;
+}
+
+export interface LimitCacheOptions {
+  /** How long resolved limits are kept in ms (0 disables caching) */
+  ttlMs: number;
+  /** Maximum number of cached keys, oldest evicted first (default: 10000) */
+  maxEntries?: number;
+}
+
+/**
+ * Cache of per-key limits returned by a resolver
+ *
+ * - Concurrent lookups for the same key share one resolver call
+ * - Failed lookups are not cached
+ */
+export class LimitCache<TLimits> {
+  private readonly resolve: (key: string) => TLimits | Promise<TLimits>;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry<TLimits>>();
+
+  constructor(
+    resolve: (key: string) => TLimits | Promise<TLimits>,
+    options: LimitCacheOptions
+  ) {
+    this.resolve = resolve;
+    this.ttlMs = options.ttlMs;
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  /**
+   * Get the limits for a key, calling the resolver if they aren't cached
+   */
+  get(key: string): Promise<TLimits> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.limits;
+    }
+
+    const limits = Promise.resolve().then(() => this.resolve(key));
+    if (this.ttlMs <= 0) {
+      return limits;
+    }
+
+    // Re-insert so iteration order tracks insertion time
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    const created: CacheEntry<TLimits> = { limits, expiresAt: now + this.ttlMs };
+    this.entries.set(key, created);
+
+    limits.catch(() => {
+      // Let the next lookup try again
+      if (this.entries.get(key) === created) {
+        this.entries.delete(key);
+      }
+    });
+
+    return limits;
+  }
+}
@@ -0,0 +1,232 @@
+import type {
+  RateLimitResult,
+  WindowOptions,
+  RateLimitStatus,
+  StatefulAlgorithm,
+  Evaluation,
+} from './types';
+import type { StorageAdapter, WindowCounterState } from '../storage/types';
+
+/**
+ * Sliding Window Counter rate limiting algorithm
+ *
+ * - Counts requests in fixed windows of `windowMs`
+ * - Estimates the rolling count as the current window's count plus the
+ *   previous window's count weighted by how much of it still overlaps
+ * - Approximates a rolling window with constant state per key
+ */
+export class SlidingWindowCounter implements StatefulAlgorithm<WindowCounterState> {
+  private readonly capacity: number;
+  private readonly windowMs: number;
+  private readonly storage: StorageAdapter;
+
+  constructor(options: WindowOptions, storage: StorageAdapter) {
+    this.capacity = options.capacity;
+    this.windowMs = options.windowMs;
+    this.storage = storage;
+  }
+
+  /**
+   * Move the stored counts forward to the window containing `now`
+   */
+  private roll(state: WindowCounterState | null, now: number): WindowCounterState {
+    const windowStart = now - (now % this.windowMs);
+
+    if (!state || state.windowStart < windowStart - this.windowMs) {
+      return { windowStart, current: 0, previous: 0 };
+    }
+    if (state.windowStart < windowStart) {
+      return { windowStart, current: 0, previous: state.current };
+    }
+    return state;
+  }
+
+  /**
+   * Weight of the previous window still overlapping the rolling window
+   */
+  private previousWeight(state: WindowCounterState, now: number): number {
+    return 1 - (now - state.windowStart) / this.windowMs;
+  }
+
+  /**
+   * Estimate the number of requests in the rolling window ending at `now`
+   */
+  private estimate(state: WindowCounterState, now: number): number {
+    return state.previous * this.previousWeight(state, now) + state.current;
+  }
+
+  /**
+   * Calculate when the estimated count drops back to zero
+   */
+  private calculateResetAt(state: WindowCounterState, now: number): number {
+    if (state.current > 0) {
+      // Current window still has to slide out entirely
+      return state.windowStart + 2 * this.windowMs;
+    }
+    if (state.previous > 0) {
+      return state.windowStart + this.windowMs;
+    }
+    return now;
+  }
+
+  /**
+   * Calculate seconds until the estimate leaves room for `tokens` more requests
+   */
+  private calculateRetryAt(state: WindowCounterState, tokens: number, now: number): number {
+    const windowEnd = state.windowStart + this.windowMs;
+    let allowedAt: number;
+
+    if (tokens > this.capacity) {
+      allowedAt = this.calculateResetAt(state, now);
+    } else if (state.current + tokens <= this.capacity) {
+      // Previous window decays enough before this window ends
+      const room = this.capacity - tokens - state.current;
+      allowedAt = state.windowStart + this.windowMs * (1 - room / state.previous);
+    } else {
+      // Wait for the current window to become the previous one and decay
+      const room = this.capacity - tokens;
+      allowedAt = windowEnd + Math.max(0, this.windowMs * (1 - room / state.current));
+    }
+
+    return Math.max(now, allowedAt);
+  }
+
+  /**
+   * Build the rate limit result
+   */
+  private buildResult(
+    allowed: boolean,
+    state: WindowCounterState,
+    tokens: number,
+    now: number
+  ): RateLimitResult {
+    const result: RateLimitResult = {
+      allowed,
+      remaining: Math.max(0, Math.floor(this.capacity - this.estimate(state, now))),
+      resetAt: this.calculateResetAt(state, now),
+    };
+
+    if (!allowed) {
+      result.retryAt = this.calculateRetryAt(state, tokens, now);
+      result.retryAfter = Math.ceil((result.retryAt - now) / 1000);
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the status of a key from its stored state
+   */
+  private buildStatus(
+    state: WindowCounterState | null,
+    now: number
+  ): RateLimitStatus<WindowCounterState> {
+    const { remaining, resetAt } = this.peek(state, now);
+    return { capacity: this.capacity, remaining, resetAt, state };
+  }
+
+  /**
+   * Add or remove tokens in a single atomic step
+   */
+  private async applyAdjustment(
+    key: string,
+    tokens: number
+  ): Promise<RateLimitStatus<WindowCounterState>> {
+    const now = Date.now();
+    const state = await this.storage.update<WindowCounterState>(
+      key,
+      (existing) => this.adjust(existing, tokens, now),
+      this.ttlFor()
+    );
+    return this.buildStatus(state, now);
+  }
+
+  peek(existing: WindowCounterState | null, now: number): RateLimitResult {
+    const state = this.roll(existing, now);
+    return this.buildResult(this.estimate(state, now) + 1 <= this.capacity, state, 1, now);
+  }
+
+  evaluate(
+    existing: WindowCounterState | null,
+    tokens: number,
+    now: number
+  ): Evaluation<WindowCounterState> {
+    const state = this.roll(existing, now);
+
+    if (this.estimate(state, now) + tokens > this.capacity) {
+      // Not enough room - don't count the request
+      return { result: this.buildResult(false, state, tokens, now), state: null };
+    }
+
+    const next = { ...state, current: state.current + tokens };
+    return { result: this.buildResult(true, next, tokens, now), state: next };
+  }
+
+  adjust(
+    existing: WindowCounterState | null,
+    tokens: number,
+    now: number
+  ): WindowCounterState | null {
+    if (!existing && tokens >= 0) {
+      // Nothing counted - nothing to give back
+      return null;
+    }
+    const state = this.roll(existing, now);
+
+    if (tokens >= 0) {
+      // Give back requests counted in the current window first
+      const fromCurrent = Math.min(tokens, state.current);
+      return {
+        windowStart: state.windowStart,
+        current: state.current - fromCurrent,
+        previous: Math.max(0, state.previous - (tokens - fromCurrent)),
+      };
+    }
+
+    // Never push the estimate past capacity
+    const room = Math.max(0, this.capacity - this.estimate(state, now));
+    return { ...state, current: state.current + Math.min(-tokens, room) };
+  }
+
+  ttlFor(): number {
+    // Counts are needed until the current window stops being the previous one
+    return 2 * this.windowMs;
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.peek(await this.storage.get<WindowCounterState>(key), Date.now());
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result!: RateLimitResult;
+
+    await this.storage.update<WindowCounterState>(
+      key,
+      (existing) => {
+        const evaluation = this.evaluate(existing, tokens, now);
+        result = evaluation.result;
+        return evaluation.state;
+      },
+      this.ttlFor()
+    );
+
+    return result;
+  }
+
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus<WindowCounterState>> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus<WindowCounterState>> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus<WindowCounterState>> {
+    return this.buildStatus(await this.storage.get<WindowCounterState>(key), Date.now());
+  }
+}
@@ -0,0 +1,193 @@
+import type {
+  RateLimitResult,
+  WindowOptions,
+  RateLimitStatus,
+  StatefulAlgorithm,
+  Evaluation,
+} from './types';
+import type { StorageAdapter, WindowLogState } from '../storage/types';
+
+/**
+ * Sliding Window Log rate limiting algorithm
+ *
+ * - Stores the timestamp of every request within the window
+ * - Allows at most `capacity` requests in any rolling `windowMs` period
+ * - Exact, but state grows with the number of requests per window
+ */
+export class SlidingWindowLog implements StatefulAlgorithm<WindowLogState> {
+  private readonly capacity: number;
+  private readonly windowMs: number;
+  private readonly storage: StorageAdapter;
+
+  constructor(options: WindowOptions, storage: StorageAdapter) {
+    this.capacity = options.capacity;
+    this.windowMs = options.windowMs;
+    this.storage = storage;
+  }
+
+  /**
+   * Drop timestamps that have fallen out of the window
+   */
+  private prune(state: WindowLogState | null, now: number): number[] {
+    if (!state) {
+      return [];
+    }
+    const windowStart = now - this.windowMs;
+    return state.timestamps.filter((timestamp) => timestamp > windowStart);
+  }
+
+  /**
+   * Calculate when every logged request will have left the window
+   */
+  private calculateResetAt(timestamps: number[], now: number): number {
+    if (timestamps.length === 0) {
+      return now;
+    }
+    return timestamps[timestamps.length - 1] + this.windowMs;
+  }
+
+  /**
+   * Calculate seconds until enough requests leave the window for `tokens` more
+   */
+  private calculateRetryAt(timestamps: number[], tokens: number, now: number): number {
+    const mustExpire = timestamps.length + tokens - this.capacity;
+    const index = Math.min(mustExpire, timestamps.length) - 1;
+    if (index < 0) {
+      return now;
+    }
+    return Math.max(now, timestamps[index] + this.windowMs);
+  }
+
+  /**
+   * Build the rate limit result
+   */
+  private buildResult(
+    allowed: boolean,
+    timestamps: number[],
+    tokens: number,
+    now: number
+  ): RateLimitResult {
+    const result: RateLimitResult = {
+      allowed,
+      remaining: Math.max(0, this.capacity - timestamps.length),
+      resetAt: this.calculateResetAt(timestamps, now),
+    };
+
+    if (!allowed) {
+      result.retryAt = this.calculateRetryAt(timestamps, tokens, now);
+      result.retryAfter = Math.ceil((result.retryAt - now) / 1000);
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the status of a key from its stored state
+   */
+  private buildStatus(state: WindowLogState | null, now: number): RateLimitStatus<WindowLogState> {
+    const { remaining, resetAt } = this.peek(state, now);
+    return { capacity: this.capacity, remaining, resetAt, state };
+  }
+
+  /**
+   * Add or remove tokens in a single atomic step
+   */
+  private async applyAdjustment(
+    key: string,
+    tokens: number
+  ): Promise<RateLimitStatus<WindowLogState>> {
+    const now = Date.now();
+    const state = await this.storage.update<WindowLogState>(
+      key,
+      (existing) => this.adjust(existing, tokens, now),
+      this.ttlFor()
+    );
+    return this.buildStatus(state, now);
+  }
+
+  peek(state: WindowLogState | null, now: number): RateLimitResult {
+    const timestamps = this.prune(state, now);
+    return this.buildResult(timestamps.length < this.capacity, timestamps, 1, now);
+  }
+
+  evaluate(
+    state: WindowLogState | null,
+    tokens: number,
+    now: number
+  ): Evaluation<WindowLogState> {
+    const timestamps = this.prune(state, now);
+
+    if (timestamps.length + tokens > this.capacity) {
+      // Window is full - don't log the request
+      return { result: this.buildResult(false, timestamps, tokens, now), state: null };
+    }
+
+    for (let i = 0; i < tokens; i++) {
+      timestamps.push(now);
+    }
+    return {
+      result: this.buildResult(true, timestamps, tokens, now),
+      state: { timestamps },
+    };
+  }
+
+  adjust(state: WindowLogState | null, tokens: number, now: number): WindowLogState | null {
+    if (!state && tokens >= 0) {
+      // Nothing logged - nothing to give back
+      return null;
+    }
+    const timestamps = this.prune(state, now);
+
+    if (tokens >= 0) {
+      // Forget the most recent requests first
+      timestamps.splice(Math.max(0, timestamps.length - tokens));
+    } else {
+      const added = Math.min(-tokens, Math.max(0, this.capacity - timestamps.length));
+      for (let i = 0; i < added; i++) {
+        timestamps.push(now);
+      }
+    }
+    return { timestamps };
+  }
+
+  ttlFor(): number {
+    return this.windowMs;
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.peek(await this.storage.get<WindowLogState>(key), Date.now());
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const now = Date.now();
+    let result!: RateLimitResult;
+
+    await this.storage.update<WindowLogState>(
+      key,
+      (existing) => {
+        const evaluation = this.evaluate(existing, tokens, now);
+        result = evaluation.result;
+        return evaluation.state;
+      },
+      this.ttlFor()
+    );
+
+    return result;
+  }
+
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus<WindowLogState>> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus<WindowLogState>> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus<WindowLogState>> {
+    return this.buildStatus(await this.storage.get<WindowLogState>(key), Date.now());
+  }
+}
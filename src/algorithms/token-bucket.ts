@@ -1,80 +1,142 @@
-import type { RateLimitResult, RateLimiterOptions, RateLimitAlgorithm } from './types';
+import { LimitCache } from './limit-cache';
+import type {
+  RateLimitResult,
+  RateLimitStatus,
+  RateLimiterOptions,
+  TokenBucketOptions,
+  StatefulAlgorithm,
+  Evaluation,
+  RefillMode,
+} from './types';
 import type { StorageAdapter, BucketState } from '../storage/types';
 
+/**
+ * Limits applied to a bucket, with defaults filled in
+ */
+interface BucketLimits {
+  capacity: number;
+  refillRate: number;
+  refillInterval: number;
+  refillMode: RefillMode;
+  ttlMs: number;
+}
+
+/**
+ * Fill in defaults and derive the state TTL from bucket options
+ */
+function toBucketLimits(options: RateLimiterOptions): BucketLimits {
+  return {
+    capacity: options.capacity,
+    refillRate: options.refillRate,
+    refillInterval: options.refillInterval,
+    refillMode: options.refillMode ?? 'interval',
+    // TTL is time to refill from 0 to full capacity, plus buffer
+    ttlMs: Math.ceil((options.capacity / options.refillRate) * options.refillInterval) * 2,
+  };
+}
+
 /**
  * Token Bucket rate limiting algorithm
  *
  * - Bucket holds up to `capacity` tokens
- * - Tokens refill at `refillRate` tokens per `refillInterval` ms
+ * - Tokens refill at `refillRate` tokens per `refillInterval` ms, either in
+ *   whole intervals or continuously (fractional tokens)
  * - Each request consumes tokens from the bucket
  * - When bucket is empty, requests are rejected
+ * - Limits may be resolved per key (e.g. by customer plan)
  */
-export class TokenBucket implements RateLimitAlgorithm {
-  private readonly capacity: number;
-  private readonly refillRate: number;
-  private readonly refillInterval: number;
+export class TokenBucket implements StatefulAlgorithm<BucketState> {
+  private readonly limits: BucketLimits;
+  private readonly resolver: LimitCache<BucketLimits> | null;
   private readonly storage: StorageAdapter;
-  private readonly ttlMs: number;
 
-  constructor(options: RateLimiterOptions, storage: StorageAdapter) {
-    this.capacity = options.capacity;
-    this.refillRate = options.refillRate;
-    this.refillInterval = options.refillInterval;
+  constructor(options: TokenBucketOptions, storage: StorageAdapter) {
+    this.limits = toBucketLimits(options);
+    const resolveLimits = options.resolveLimits;
+    this.resolver = resolveLimits
+      ? new LimitCache(async (key) => toBucketLimits(await resolveLimits(key)), {
+          ttlMs: options.resolveCacheMs ?? 60000,
+        })
+      : null;
     this.storage = storage;
-    // TTL is time to refill from 0 to full capacity, plus buffer
-    this.ttlMs = Math.ceil((this.capacity / this.refillRate) * this.refillInterval) * 2;
+  }
+
+  /**
+   * Get the limits that apply to a key
+   */
+  private async limitsFor(key: string): Promise<BucketLimits> {
+    return this.resolver ? this.resolver.get(key) : this.limits;
   }
 
   /**
    * Calculate the current token count based on time elapsed since last refill
    */
-  private calculateTokens(state: BucketState, now: number): number {
+  private calculateTokens(limits: BucketLimits, state: BucketState, now: number): number {
     const elapsed = now - state.lastRefill;
-    const intervalsElapsed = Math.floor(elapsed / this.refillInterval);
-    const tokensToAdd = intervalsElapsed * this.refillRate;
-    return Math.min(this.capacity, state.tokens + tokensToAdd);
+    if (limits.refillMode === 'continuous') {
+      const tokensToAdd = (elapsed / limits.refillInterval) * limits.refillRate;
+      return Math.min(limits.capacity, state.tokens + tokensToAdd);
+    }
+    const intervalsElapsed = Math.floor(elapsed / limits.refillInterval);
+    const tokensToAdd = intervalsElapsed * limits.refillRate;
+    return Math.min(limits.capacity, state.tokens + tokensToAdd);
   }
 
   /**
    * Calculate the last refill time adjusted for elapsed intervals
    */
-  private calculateLastRefill(state: BucketState, now: number): number {
+  private calculateLastRefill(limits: BucketLimits, state: BucketState, now: number): number {
+    if (limits.refillMode === 'continuous') {
+      // Token count is always brought up to date
+      return now;
+    }
     const elapsed = now - state.lastRefill;
-    const intervalsElapsed = Math.floor(elapsed / this.refillInterval);
-    return state.lastRefill + intervalsElapsed * this.refillInterval;
+    const intervalsElapsed = Math.floor(elapsed / limits.refillInterval);
+    return state.lastRefill + intervalsElapsed * limits.refillInterval;
   }
 
   /**
    * Calculate when the bucket will be full again
    */
-  private calculateResetAt(tokens: number, lastRefill: number): number {
-    if (tokens >= this.capacity) {
+  private calculateResetAt(limits: BucketLimits, tokens: number, lastRefill: number): number {
+    if (tokens >= limits.capacity) {
       return lastRefill;
     }
-    const tokensNeeded = this.capacity - tokens;
-    const intervalsNeeded = Math.ceil(tokensNeeded / this.refillRate);
-    return lastRefill + intervalsNeeded * this.refillInterval;
+    const tokensNeeded = limits.capacity - tokens;
+    if (limits.refillMode === 'continuous') {
+      return lastRefill + Math.ceil((tokensNeeded / limits.refillRate) * limits.refillInterval);
+    }
+    const intervalsNeeded = Math.ceil(tokensNeeded / limits.refillRate);
+    return lastRefill + intervalsNeeded * limits.refillInterval;
   }
 
   /**
-   * Calculate seconds until next token is available
+   * Calculate seconds until the requested tokens are available
+   * (interval mode: until the next refill)
    */
-  private calculateRetryAfter(lastRefill: number, now: number): number {
-    const nextRefill = lastRefill + this.refillInterval;
-    return Math.max(0, Math.ceil((nextRefill - now) / 1000));
+  private calculateRetryAt(
+    limits: BucketLimits,
+    tokens: number,
+    requested: number,
+    lastRefill: number,
+    now: number
+  ): number {
+    if (limits.refillMode === 'continuous') {
+      const tokensNeeded = Math.max(0, requested - tokens);
+      const availableAt =
+        lastRefill + (tokensNeeded / limits.refillRate) * limits.refillInterval;
+      return Math.max(now, availableAt);
+    }
+    return Math.max(now, lastRefill + limits.refillInterval);
   }
 
   /**
-   * Get or create bucket state for a key
+   * Create the initial state for a bucket that doesn't exist yet
    */
-  private async getOrCreateState(key: string, now: number): Promise<BucketState> {
-    const existing = await this.storage.get(key);
-    if (existing) {
-      return existing;
-    }
+  private createState(limits: BucketLimits, now: number): BucketState {
     // New bucket starts full
     return {
-      tokens: this.capacity,
+      tokens: limits.capacity,
       lastRefill: now,
     };
   }
@@ -83,52 +145,210 @@ export class TokenBucket implements RateLimitAlgorithm {
    * Build the rate limit result
    */
   private buildResult(
+    limits: BucketLimits,
     allowed: boolean,
     tokens: number,
+    requested: number,
     lastRefill: number,
     now: number
   ): RateLimitResult {
     const result: RateLimitResult = {
       allowed,
       remaining: Math.floor(tokens),
-      resetAt: this.calculateResetAt(tokens, lastRefill),
+      resetAt: this.calculateResetAt(limits, tokens, lastRefill),
     };
 
     if (!allowed) {
-      result.retryAfter = this.calculateRetryAfter(lastRefill, now);
+      result.retryAt = this.calculateRetryAt(limits, tokens, requested, lastRefill, now);
+      result.retryAfter = Math.ceil((result.retryAt - now) / 1000);
+    }
+
+    if (this.resolver) {
+      result.capacity = limits.capacity;
     }
 
     return result;
   }
 
-  async check(key: string): Promise<RateLimitResult> {
+  /**
+   * Build the status of a key from its stored state
+   */
+  private buildStatus(
+    limits: BucketLimits,
+    state: BucketState | null,
+    now: number
+  ): RateLimitStatus<BucketState> {
+    const { remaining, resetAt } = this.peekWith(limits, state, now);
+    return { capacity: limits.capacity, remaining, resetAt, state };
+  }
+
+  /**
+   * Add or remove tokens in a single atomic step
+   */
+  private async applyAdjustment(
+    key: string,
+    tokens: number
+  ): Promise<RateLimitStatus<BucketState>> {
+    const limits = await this.limitsFor(key);
     const now = Date.now();
-    const state = await this.getOrCreateState(key, now);
-    const tokens = this.calculateTokens(state, now);
-    const lastRefill = this.calculateLastRefill(state, now);
+    const state = await this.storage.update<BucketState>(
+      key,
+      (existing) => this.adjustWith(limits, existing, tokens, now),
+      limits.ttlMs
+    );
+    return this.buildStatus(limits, state, now);
+  }
 
-    return this.buildResult(tokens >= 1, tokens, lastRefill, now);
+  /**
+   * Evaluate whether a request would be allowed under the given limits
+   */
+  private peekWith(
+    limits: BucketLimits,
+    existing: BucketState | null,
+    now: number
+  ): RateLimitResult {
+    const state = existing ?? this.createState(limits, now);
+    const tokens = this.calculateTokens(limits, state, now);
+    const lastRefill = this.calculateLastRefill(limits, state, now);
+
+    return this.buildResult(limits, tokens >= 1, tokens, 1, lastRefill, now);
   }
 
-  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
-    const now = Date.now();
-    const state = await this.getOrCreateState(key, now);
-    const currentTokens = this.calculateTokens(state, now);
-    const lastRefill = this.calculateLastRefill(state, now);
+  /**
+   * Evaluate a request consuming tokens under the given limits
+   */
+  private evaluateWith(
+    limits: BucketLimits,
+    existing: BucketState | null,
+    tokens: number,
+    now: number
+  ): Evaluation<BucketState> {
+    const state = existing ?? this.createState(limits, now);
+    const currentTokens = this.calculateTokens(limits, state, now);
+    const lastRefill = this.calculateLastRefill(limits, state, now);
 
     if (currentTokens < tokens) {
       // Not enough tokens - don't modify state
-      return this.buildResult(false, currentTokens, lastRefill, now);
+      return {
+        result: this.buildResult(limits, false, currentTokens, tokens, lastRefill, now),
+        state: null,
+      };
     }
 
     // Consume tokens and update state
     const newTokens = currentTokens - tokens;
-    await this.storage.set(
+    return {
+      result: this.buildResult(limits, true, newTokens, tokens, lastRefill, now),
+      state: { tokens: newTokens, lastRefill },
+    };
+  }
+
+  /**
+   * Add or remove tokens under the given limits
+   */
+  private adjustWith(
+    limits: BucketLimits,
+    existing: BucketState | null,
+    tokens: number,
+    now: number
+  ): BucketState | null {
+    if (!existing && tokens >= 0) {
+      // A bucket that doesn't exist yet is already full
+      return null;
+    }
+    const state = existing ?? this.createState(limits, now);
+    const currentTokens = this.calculateTokens(limits, state, now);
+
+    return {
+      tokens: Math.min(limits.capacity, Math.max(0, currentTokens + tokens)),
+      lastRefill: this.calculateLastRefill(limits, state, now),
+    };
+  }
+
+  peek(existing: BucketState | null, now: number): RateLimitResult {
+    return this.peekWith(this.limits, existing, now);
+  }
+
+  evaluate(
+    existing: BucketState | null,
+    tokens: number,
+    now: number
+  ): Evaluation<BucketState> {
+    return this.evaluateWith(this.limits, existing, tokens, now);
+  }
+
+  adjust(existing: BucketState | null, tokens: number, now: number): BucketState | null {
+    return this.adjustWith(this.limits, existing, tokens, now);
+  }
+
+  ttlFor(): number {
+    return this.limits.ttlMs;
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    const limits = await this.limitsFor(key);
+    return this.peekWith(limits, await this.storage.get<BucketState>(key), Date.now());
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const limits = await this.limitsFor(key);
+    const now = Date.now();
+
+    // Let the backend run the whole step itself when it can
+    if (this.storage.consumeTokens) {
+      const outcome = await this.storage.consumeTokens(
+        key,
+        {
+          capacity: limits.capacity,
+          refillRate: limits.refillRate,
+          refillInterval: limits.refillInterval,
+          refillMode: limits.refillMode,
+          tokens,
+          now,
+        },
+        limits.ttlMs
+      );
+      return this.buildResult(
+        limits,
+        outcome.allowed,
+        outcome.state.tokens,
+        tokens,
+        outcome.state.lastRefill,
+        now
+      );
+    }
+
+    let result!: RateLimitResult;
+
+    // Refill and consume in a single atomic step so concurrent requests
+    // for the same key cannot both spend the same tokens
+    await this.storage.update<BucketState>(
       key,
-      { tokens: newTokens, lastRefill },
-      this.ttlMs
+      (existing) => {
+        const evaluation = this.evaluateWith(limits, existing, tokens, now);
+        result = evaluation.result;
+        return evaluation.state;
+      },
+      limits.ttlMs
     );
 
-    return this.buildResult(true, newTokens, lastRefill, now);
+    return result;
+  }
+
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus<BucketState>> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus<BucketState>> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus<BucketState>> {
+    const limits = await this.limitsFor(key);
+    return this.buildStatus(limits, await this.storage.get<BucketState>(key), Date.now());
   }
 }
@@ -8,12 +8,53 @@ export interface RateLimitResult {
   remaining: number;
   /** Unix timestamp (ms) when the bucket will be full again */
   resetAt: number;
-  /** Seconds until the next token is available (only present when blocked) */
+  /** Seconds until the next token is available (only present when blocked, may be fractional) */
   retryAfter?: number;
+  /**
+   * Unix timestamp (ms) when a retry may succeed (only present when blocked,
+   * unrounded - use it to wait precisely for sub-second limits)
+   */
+  retryAt?: number;
+  /**
+   * Capacity that applied to the request (only present when it may differ from the
+   * configured capacity, e.g. limits resolved per key or the binding composite limit)
+   */
+  capacity?: number;
+  /**
+   * Set in shadow mode when the limit would have denied the request
+   * (`allowed` is true regardless)
+   */
+  shadowDenied?: boolean;
+  /**
+   * Set by the middleware when the request was rejected by a denylist or a
+   * temporary ban, without charging the limit
+   */
+  blocked?: 'denylist' | 'ban';
 }
 
 /**
- * Configuration options for the rate limiter
+ * Current standing of a key, derived from its stored state
+ */
+export interface RateLimitStatus<TState = unknown> {
+  /** Maximum number of tokens the key can hold */
+  capacity: number;
+  /** Number of tokens currently available */
+  remaining: number;
+  /** Unix timestamp (ms) when the bucket will be full again */
+  resetAt: number;
+  /** Stored state for the key (null if none, i.e. the bucket is full) */
+  state: TState | null;
+}
+
+/**
+ * How a token bucket refills
+ * - `interval`: `refillRate` whole tokens at the end of each `refillInterval`
+ * - `continuous`: fractional tokens accrue proportionally to elapsed time
+ */
+export type RefillMode = 'interval' | 'continuous';
+
+/**
+ * Configuration options for the token bucket rate limiter
  */
 export interface RateLimiterOptions {
   /** Maximum number of tokens the bucket can hold (burst size) */
@@ -22,6 +63,49 @@ export interface RateLimiterOptions {
   refillRate: number;
   /** Time interval in milliseconds between refills */
   refillInterval: number;
+  /** How tokens refill (default: 'interval') */
+  refillMode?: RefillMode;
+}
+
+/**
+ * Resolve the limits for a key, e.g. from the customer's plan
+ */
+export type LimitResolver = (
+  key: string
+) => RateLimiterOptions | Promise<RateLimiterOptions>;
+
+/**
+ * Configuration options for the token bucket algorithm
+ */
+export interface TokenBucketOptions extends RateLimiterOptions {
+  /**
+   * Resolve limits per key instead of using the options above for every key
+   * (the options above still apply when evaluating state without a key)
+   */
+  resolveLimits?: LimitResolver;
+  /** How long resolved limits are cached per key in ms (default: 60000, 0 disables) */
+  resolveCacheMs?: number;
+}
+
+/**
+ * Configuration options for window-based rate limiters
+ */
+export interface WindowOptions {
+  /** Maximum number of requests allowed within a window */
+  capacity: number;
+  /** Length of the window in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Configuration options for the fixed window rate limiter
+ */
+export interface FixedWindowOptions extends WindowOptions {
+  /**
+   * Offset from UTC in minutes that windows align to (default: 0)
+   * e.g. 330 for UTC+5:30, so daily windows reset at local midnight
+   */
+  utcOffsetMinutes?: number;
 }
 
 /**
@@ -40,4 +124,79 @@ export interface RateLimitAlgorithm {
    * @param tokens - Number of tokens to consume (default: 1)
    */
   consume(key: string, tokens?: number): Promise<RateLimitResult>;
+
+  /**
+   * Give tokens back to the bucket, never exceeding capacity
+   * @param key - Unique identifier for the rate limit bucket
+   * @param tokens - Number of tokens to give back (default: 1)
+   */
+  refund(key: string, tokens?: number): Promise<RateLimitStatus>;
+
+  /**
+   * Take tokens from the bucket regardless of whether they are available,
+   * never going below empty
+   * @param key - Unique identifier for the rate limit bucket
+   * @param tokens - Number of tokens to take (default: 1)
+   */
+  penalize(key: string, tokens?: number): Promise<RateLimitStatus>;
+
+  /**
+   * Forget all state for the key, so its bucket starts full again
+   * @param key - Unique identifier for the rate limit bucket
+   */
+  reset(key: string): Promise<void>;
+
+  /**
+   * Get the current status of the key without changing it
+   * @param key - Unique identifier for the rate limit bucket
+   */
+  get(key: string): Promise<RateLimitStatus>;
+}
+
+/**
+ * Outcome of evaluating a request against stored state
+ */
+export interface Evaluation<TState> {
+  /** The rate limit result for the request */
+  result: RateLimitResult;
+  /** State to store, or null to leave the stored state unchanged */
+  state: TState | null;
+}
+
+/**
+ * Rate limiting algorithm whose decisions are pure functions of its stored state
+ *
+ * Lets callers evaluate several algorithms inside a single storage update.
+ */
+export interface StatefulAlgorithm<TState = unknown> extends RateLimitAlgorithm {
+  /**
+   * Evaluate whether a request would be allowed, without changing state
+   * @param state - Stored state for the key (null if none)
+   * @param now - Current Unix timestamp (ms)
+   */
+  peek(state: TState | null, now: number): RateLimitResult;
+
+  /**
+   * Evaluate a request consuming tokens
+   * @param state - Stored state for the key (null if none)
+   * @param tokens - Number of tokens to consume
+   * @param now - Current Unix timestamp (ms)
+   */
+  evaluate(state: TState | null, tokens: number, now: number): Evaluation<TState>;
+
+  /**
+   * Add tokens to (positive) or remove tokens from (negative) the bucket,
+   * clamped between empty and capacity
+   * @param state - Stored state for the key (null if none)
+   * @param tokens - Number of tokens to add, negative to remove
+   * @param now - Current Unix timestamp (ms)
+   * @returns State to store, or null to leave the stored state unchanged
+   */
+  adjust(state: TState | null, tokens: number, now: number): TState | null;
+
+  /**
+   * Time-to-live in milliseconds for state written at `now`
+   * @param now - Current Unix timestamp (ms)
+   */
+  ttlFor(now: number): number;
 }
@@ -0,0 +1,244 @@
+import { QueueTimeoutError } from '../errors';
+import { RateLimiter, type RateLimiterConfig } from '../index';
+
+/**
+ * What a remote API told us about its own limits
+ */
+export interface RemoteLimits {
+  /** Time in ms the remote asked us to wait before calling again */
+  retryAfterMs?: number;
+  /** Calls the remote says we have left */
+  remaining?: number;
+}
+
+interface ThrottleSettings<TArgs extends unknown[], TResult> {
+  /**
+   * Key the call is charged to, or a function computing it from the arguments
+   * Default: 'default' (all calls share one limit)
+   */
+  key?: string | ((...args: TArgs) => string);
+
+  /**
+   * Tokens charged for a call, or a function computing them from the arguments
+   * Default: 1
+   */
+  cost?: number | ((...args: TArgs) => number);
+
+  /**
+   * Maximum time in ms a call may wait, including pauses requested by the remote
+   * Default: the limiter's `queue.maxWaitMs` (unlimited if unset)
+   */
+  maxWaitMs?: number;
+
+  /**
+   * Read the remote's limits from a result so the local limit can follow them
+   * Default: the local limit is not adapted
+   */
+  adapt?: (result: TResult) => RemoteLimits | undefined;
+}
+
+/**
+ * Options for `throttle`: a limit to create, or an existing `limiter` to share
+ */
+export type ThrottleOptions<TArgs extends unknown[], TResult> = (
+  | RateLimiterConfig
+  | { limiter: RateLimiter }
+) &
+  ThrottleSettings<TArgs, TResult>;
+
+/**
+ * A throttled function, with the limiter it waits on (destroy it when done)
+ */
+export type Throttled<TArgs extends unknown[], TResult> = ((
+  ...args: TArgs
+) => Promise<TResult>) & { readonly limiter: RateLimiter };
+
+/**
+ * Options for `createThrottledFetch`
+ */
+export type ThrottledFetchOptions = (RateLimiterConfig | { limiter: RateLimiter }) & {
+  /**
+   * Function computing the key from the request URL
+   * Default: the URL's host, so each remote API gets its own limit
+   */
+  key?: (url: URL) => string;
+
+  /**
+   * Maximum time in ms a request may wait, including pauses requested by the remote
+   * Default: the limiter's `queue.maxWaitMs` (unlimited if unset)
+   */
+  maxWaitMs?: number;
+
+  /**
+   * Fetch implementation to throttle
+   * Default: the global `fetch`
+   */
+  fetch?: typeof fetch;
+};
+
+export type ThrottledFetch = Throttled<Parameters<typeof fetch>, Response>;
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string, now: number): number | undefined {
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read `Retry-After` and `X-RateLimit-Remaining` from response headers
+ */
+export function remoteLimitsFromHeaders(headers: Headers): RemoteLimits {
+  const limits: RemoteLimits = {};
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter !== null) {
+    limits.retryAfterMs = parseRetryAfter(retryAfter, Date.now());
+  }
+
+  const remaining = Number(headers.get('x-ratelimit-remaining') ?? NaN);
+  if (Number.isFinite(remaining)) {
+    limits.remaining = Math.max(0, remaining);
+  }
+
+  return limits;
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Make calls to `fn` wait for the rate limit instead of exceeding it
+ *
+ * Calls wait in line per key (see `RateLimiter.acquire`). With `adapt`, the
+ * local limit follows what the remote reports: calls for the key are paused
+ * for its `retryAfterMs`, and tokens are drained down to its `remaining`.
+ *
+ * @example
+ * ```typescript
+ * const search = throttle((query: string) => api.search(query), {
+ *   capacity: 10,
+ *   refillRate: 10,
+ *   refillInterval: 1000, // 10 calls per second
+ *   maxWaitMs: 30000,
+ * });
+ *
+ * const results = await search('rate limits');
+ * ```
+ */
+export function throttle<TArgs extends unknown[], TResult>(
+  fn: (...args: TArgs) => TResult | Promise<TResult>,
+  options: ThrottleOptions<TArgs, TResult>
+): Throttled<TArgs, TResult> {
+  const limiter = 'limiter' in options ? options.limiter : new RateLimiter(options);
+  const key = options.key ?? 'default';
+  const cost = options.cost ?? 1;
+  const maxWaitMs = options.maxWaitMs;
+  const adapt = options.adapt;
+  const pausedUntil = new Map<string, number>();
+
+  /**
+   * Wait out any pause the remote asked for, within the caller's deadline
+   */
+  const waitForPause = async (callKey: string, deadline: number): Promise<void> => {
+    let until = pausedUntil.get(callKey);
+    while (until !== undefined && until > Date.now()) {
+      if (until > deadline) {
+        throw new QueueTimeoutError(callKey, maxWaitMs!);
+      }
+      await sleep(until - Date.now());
+      until = pausedUntil.get(callKey);
+    }
+    pausedUntil.delete(callKey);
+  };
+
+  /**
+   * Bring the local limit in line with the remote's
+   */
+  const follow = async (callKey: string, remote: RemoteLimits): Promise<void> => {
+    if (remote.retryAfterMs !== undefined && remote.retryAfterMs > 0) {
+      const until = Date.now() + remote.retryAfterMs;
+      pausedUntil.set(callKey, Math.max(pausedUntil.get(callKey) ?? 0, until));
+    }
+
+    if (remote.remaining === undefined) {
+      return;
+    }
+    const status = await limiter.get(callKey);
+    if (status.remaining > remote.remaining) {
+      await limiter.penalize(callKey, status.remaining - remote.remaining);
+    }
+  };
+
+  const throttled = async (...args: TArgs): Promise<TResult> => {
+    const callKey = typeof key === 'function' ? key(...args) : key;
+    const tokens = typeof cost === 'function' ? cost(...args) : cost;
+    const deadline = maxWaitMs === undefined ? Infinity : Date.now() + maxWaitMs;
+
+    await waitForPause(callKey, deadline);
+    await limiter.acquire(callKey, {
+      tokens,
+      maxWaitMs: maxWaitMs === undefined ? undefined : Math.max(0, deadline - Date.now()),
+    });
+
+    const result = await fn(...args);
+
+    const remote = adapt?.(result);
+    if (remote) {
+      try {
+        await follow(callKey, remote);
+      } catch {
+        // The call succeeded - failing to adapt must not fail it
+      }
+    }
+
+    return result;
+  };
+
+  return Object.assign(throttled, { limiter });
+}
+
+/**
+ * Get the URL of a fetch request
+ */
+function urlOf(input: Parameters<typeof fetch>[0]): URL {
+  if (input instanceof URL) {
+    return input;
+  }
+  return new URL(typeof input === 'string' ? input : input.url);
+}
+
+/**
+ * Create a `fetch` that waits for a per-host rate limit before sending requests
+ * and adapts to the `Retry-After` and `X-RateLimit-Remaining` headers it gets back
+ *
+ * @example
+ * ```typescript
+ * const fetchGitHub = createThrottledFetch({
+ *   capacity: 5000,
+ *   refillRate: 5000,
+ *   refillInterval: 3600000, // 5000 requests per hour
+ * });
+ *
+ * const response = await fetchGitHub('https://api.github.com/user');
+ * ```
+ */
+export function createThrottledFetch(options: ThrottledFetchOptions): ThrottledFetch {
+  const send = options.fetch ?? fetch;
+  const key = options.key ?? ((url: URL) => url.host);
+
+  return throttle((input: Parameters<typeof fetch>[0], init?: RequestInit) => send(input, init), {
+    ...options,
+    key: (input) => key(urlOf(input)),
+    adapt: (response) => remoteLimitsFromHeaders(response.headers),
+  });
+}
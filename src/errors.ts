@@ -0,0 +1,63 @@
+/**
+ * Thrown when a rate limiter is given an invalid value, such as a request cost
+ */
+export class RateLimiterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimiterError';
+  }
+}
+
+/**
+ * Thrown when a rate limit queue is already holding `maxQueueLength` callers
+ */
+export class QueueFullError extends Error {
+  constructor(key: string, maxQueueLength: number) {
+    super(`Rate limit queue for "${key}" is full (${maxQueueLength} waiting)`);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Thrown when a queued caller waits longer than `maxWaitMs`
+ */
+export class QueueTimeoutError extends Error {
+  constructor(key: string, maxWaitMs: number) {
+    super(`Timed out after ${maxWaitMs}ms waiting for rate limit on "${key}"`);
+    this.name = 'QueueTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a storage operation takes longer than the configured timeout
+ */
+export class StorageTimeoutError extends Error {
+  constructor(operation: string, timeoutMs: number) {
+    super(`Storage operation "${operation}" timed out after ${timeoutMs}ms`);
+    this.name = 'StorageTimeoutError';
+  }
+}
+
+/**
+ * Thrown instead of calling storage while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Circuit breaker is open - storage calls are suspended');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when rate limit rules are invalid, listing every problem found
+ */
+export class RulesConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[], source?: string) {
+    const where = source ? ` in ${source}` : '';
+    super(`Invalid rate limit rules${where}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'RulesConfigError';
+    this.issues = issues;
+  }
+}
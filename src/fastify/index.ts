@@ -0,0 +1,6 @@
+export {
+  fastifyRateLimit,
+  type FastifyRateLimitOptions,
+  type RouteRateLimitOptions,
+} from '../middleware/fastify';
+export type { HeadersFormat } from '../middleware/headers';
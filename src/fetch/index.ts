@@ -0,0 +1,6 @@
+export {
+  withRateLimit,
+  type FetchHandler,
+  type FetchRateLimitOptions,
+} from '../middleware/fetch';
+export type { HeadersFormat } from '../middleware/headers';
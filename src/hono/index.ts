@@ -0,0 +1,2 @@
+export { honoRateLimit, type HonoRateLimitOptions } from '../middleware/hono';
+export type { HeadersFormat } from '../middleware/headers';
@@ -1,13 +1,79 @@
-import { TokenBucket } from './algorithms/token-bucket';
+import {
+  createAlgorithm,
+  type AlgorithmConfig,
+  type AlgorithmName,
+} from './algorithms/factory';
 import { MemoryStorage, type MemoryStorageOptions } from './storage/memory';
+import { GuardedStorage } from './storage/guarded';
+import { FailSafeAlgorithm } from './limiters/fail-safe';
+import { ShadowAlgorithm } from './limiters/shadow';
+import { PrefixedStorage } from './storage/prefixed';
+import {
+  InstrumentedAlgorithm,
+  InstrumentedStorage,
+  type RateLimiterHooks,
+  type RateLimitEvent,
+  type StorageErrorEvent,
+  type StorageLatencyEvent,
+} from './metrics/hooks';
+import type { MetricsCollectorOptions, HotKey } from './metrics/collector';
+import {
+  RateLimitQueue,
+  type QueueOptions,
+  type AcquireOptions,
+} from './limiters/queue';
 import type {
   RateLimitResult,
+  RateLimitStatus,
   RateLimiterOptions,
+  TokenBucketOptions,
+  LimitResolver,
+  RefillMode,
+  WindowOptions,
+  FixedWindowOptions,
   RateLimitAlgorithm,
+  StatefulAlgorithm,
+  Evaluation,
 } from './algorithms/types';
-import type { StorageAdapter, BucketState } from './storage/types';
+import type {
+  StorageAdapter,
+  BucketState,
+  WindowLogState,
+  WindowCounterState,
+  FixedWindowState,
+  GcraState,
+  ConcurrencyState,
+  BanState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
+} from './storage/types';
+import type { ConcurrencyLimiterOptions, Lease } from './limiters/concurrency';
+import type { TemporaryBanOptions } from './limiters/bans';
+import type {
+  CompositeRateLimiterConfig,
+  CompositeRateLimitResult,
+  CompositeRateLimitStatus,
+  LimitDefinition,
+  LimitResult,
+  LimitStatus,
+} from './limiters/composite';
+import type {
+  RemoteLimits,
+  ThrottleOptions,
+  Throttled,
+  ThrottledFetchOptions,
+  ThrottledFetch,
+} from './client/throttle';
+import type { CircuitBreakerOptions, CircuitState } from './storage/circuit-breaker';
+import type { GuardedStorageOptions } from './storage/guarded';
+import type {
+  RedisClient,
+  NodeRedisClient,
+  RedisStorageOptions,
+} from './storage/redis';
 
-export interface RateLimiterConfig extends RateLimiterOptions {
+export interface StorageConfig {
   /** Custom storage adapter (default: MemoryStorage) */
   storage?: StorageAdapter;
   /** Options for the default MemoryStorage */
@@ -15,7 +81,50 @@ export interface RateLimiterConfig extends RateLimiterOptions {
 }
 
 /**
- * Rate limiter using the token bucket algorithm
+ * What to do when storage fails
+ * - `throw`: let the error reach the caller
+ * - `fail-open`: allow requests (`check` / `consume` only)
+ * - `fail-closed`: deny requests with a one second `retryAfter` (`check` / `consume` only)
+ * - `fallback`: keep limiting in a local MemoryStorage until the storage recovers
+ */
+export type FailureMode = 'throw' | 'fail-open' | 'fail-closed' | 'fallback';
+
+/**
+ * Whether a limit is enforced
+ * - `enforce`: requests over the limit are denied
+ * - `shadow`: decisions are made and recorded (in a separate `shadow:` key
+ *   namespace) but every request is allowed; would-be denials carry
+ *   `shadowDenied: true` and are reported to `onShadowDenied`
+ */
+export type LimitMode = 'enforce' | 'shadow';
+
+export interface FailurePolicy {
+  /** What to do when storage fails (default: 'throw') */
+  mode?: FailureMode;
+  /** Fail storage operations that take longer than this many ms (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop calling storage after repeated failures (default: no breaker) */
+  breaker?: CircuitBreakerOptions;
+}
+
+export type RateLimiterConfig = AlgorithmConfig &
+  StorageConfig & {
+    /** Limits for callers waiting in `acquire` / `schedule` */
+    queue?: QueueOptions;
+    /** How to handle storage failures and slow storage */
+    failure?: FailurePolicy;
+    /** Name reported to hooks and metrics (default: 'default') */
+    name?: string;
+    /** Callbacks observing decisions and storage calls */
+    hooks?: RateLimiterHooks | RateLimiterHooks[];
+    /** Enforce the limit, or only evaluate it (default: 'enforce') */
+    mode?: LimitMode;
+    /** Called in shadow mode for each `consume` the limit would have denied */
+    onShadowDenied?: (event: RateLimitEvent) => void;
+  };
+
+/**
+ * Rate limiter using a configurable algorithm (token bucket by default)
  *
  * @example
  * ```typescript
@@ -31,12 +140,24 @@ export interface RateLimiterConfig extends RateLimiterOptions {
  * } else {
  *   // Reject with result.retryAfter seconds
  * }
+ *
+ * // Wait for a token instead of being rejected
+ * await limiter.schedule('webhooks', () => send(payload), { maxWaitMs: 30000 });
+ *
+ * // At most 100 requests in any rolling minute
+ * const strict = new RateLimiter({
+ *   algorithm: 'sliding-window-log',
+ *   capacity: 100,
+ *   windowMs: 60000,
+ * });
  * ```
  */
 export class RateLimiter implements RateLimitAlgorithm {
-  private readonly algorithm: TokenBucket;
+  private readonly algorithm: RateLimitAlgorithm;
   private readonly storage: StorageAdapter;
   private readonly ownsStorage: boolean;
+  private readonly fallbackStorage: MemoryStorage | null = null;
+  private readonly queue: RateLimitQueue;
 
   constructor(config: RateLimiterConfig) {
     if (config.storage) {
@@ -47,14 +168,41 @@ export class RateLimiter implements RateLimitAlgorithm {
       this.ownsStorage = true;
     }
 
-    this.algorithm = new TokenBucket(
-      {
-        capacity: config.capacity,
-        refillRate: config.refillRate,
-        refillInterval: config.refillInterval,
-      },
-      this.storage
-    );
+    const name = config.name ?? 'default';
+    const hooks = config.hooks ? [config.hooks].flat() : [];
+    const failure = config.failure ?? {};
+    const mode = failure.mode ?? 'throw';
+    const shadow = config.mode === 'shadow';
+    // Hooks observe the storage itself, underneath timeouts, breaker and fallback
+    let storage: StorageAdapter = shadow
+      ? new PrefixedStorage(this.storage, 'shadow:')
+      : this.storage;
+    if (hooks.length > 0) {
+      storage = new InstrumentedStorage(storage, name, hooks);
+    }
+    if (mode === 'fallback' || failure.timeoutMs !== undefined || failure.breaker) {
+      if (mode === 'fallback') {
+        this.fallbackStorage = new MemoryStorage(config.storageOptions);
+      }
+      storage = new GuardedStorage(storage, {
+        timeoutMs: failure.timeoutMs,
+        breaker: failure.breaker,
+        fallback: this.fallbackStorage ?? undefined,
+      });
+    }
+
+    let algorithm: RateLimitAlgorithm = createAlgorithm(config, storage);
+    if (mode === 'fail-open' || mode === 'fail-closed') {
+      algorithm = new FailSafeAlgorithm(algorithm, mode);
+    }
+    if (hooks.length > 0) {
+      algorithm = new InstrumentedAlgorithm(algorithm, name, hooks);
+    }
+    if (shadow) {
+      algorithm = new ShadowAlgorithm(algorithm, name, config.onShadowDenied);
+    }
+    this.algorithm = algorithm;
+    this.queue = new RateLimitQueue(this.algorithm, config.queue);
   }
 
   /**
@@ -75,25 +223,156 @@ export class RateLimiter implements RateLimitAlgorithm {
   }
 
   /**
-   * Clean up resources (stops cleanup timer if using default storage)
+   * Give tokens back, e.g. when a downstream call failed for reasons
+   * that shouldn't count against the caller
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param tokens - Number of tokens to give back (default: 1)
+   */
+  async refund(key: string, tokens: number = 1): Promise<RateLimitStatus> {
+    return this.algorithm.refund(key, tokens);
+  }
+
+  /**
+   * Take extra tokens as a penalty, even if fewer are available
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param tokens - Number of tokens to take (default: 1)
+   */
+  async penalize(key: string, tokens: number = 1): Promise<RateLimitStatus> {
+    return this.algorithm.penalize(key, tokens);
+  }
+
+  /**
+   * Clear all state for a key, restoring its full capacity
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   */
+  async reset(key: string): Promise<void> {
+    return this.algorithm.reset(key);
+  }
+
+  /**
+   * Get the current status of a key without consuming tokens
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   */
+  async get(key: string): Promise<RateLimitStatus> {
+    return this.algorithm.get(key);
+  }
+
+  /**
+   * Wait in a per-key FIFO queue until tokens can be consumed
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param options - Tokens to consume, maximum wait and abort signal
+   * @throws QueueFullError if too many callers are already waiting
+   * @throws QueueTimeoutError if `maxWaitMs` passes first
+   */
+  async acquire(key: string, options?: AcquireOptions): Promise<RateLimitResult> {
+    return this.queue.acquire(key, options);
+  }
+
+  /**
+   * Run a function once the rate limit allows it, waiting in line if needed
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param fn - Function to run
+   * @param options - Tokens to consume, maximum wait and abort signal
+   */
+  async schedule<T>(
+    key: string,
+    fn: () => T | Promise<T>,
+    options?: AcquireOptions
+  ): Promise<T> {
+    await this.queue.acquire(key, options);
+    return fn();
+  }
+
+  /**
+   * Clean up resources (stops cleanup timer if using default storage,
+   * rejects callers still waiting in the queue)
    */
   destroy(): void {
+    this.queue.close(new Error('RateLimiter was destroyed'));
     if (this.ownsStorage && this.storage instanceof MemoryStorage) {
       this.storage.destroy();
     }
+    this.fallbackStorage?.destroy();
   }
 }
 
 // Re-export types
 export type {
+  AlgorithmConfig,
+  AlgorithmName,
   RateLimitResult,
+  RateLimitStatus,
   RateLimiterOptions,
+  TokenBucketOptions,
+  LimitResolver,
+  RefillMode,
+  WindowOptions,
+  FixedWindowOptions,
   RateLimitAlgorithm,
+  StatefulAlgorithm,
+  Evaluation,
   StorageAdapter,
   BucketState,
+  WindowLogState,
+  WindowCounterState,
+  FixedWindowState,
+  GcraState,
+  ConcurrencyState,
+  BanState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
   MemoryStorageOptions,
+  RedisClient,
+  NodeRedisClient,
+  RedisStorageOptions,
+  ConcurrencyLimiterOptions,
+  Lease,
+  TemporaryBanOptions,
+  QueueOptions,
+  AcquireOptions,
+  CompositeRateLimiterConfig,
+  CompositeRateLimitResult,
+  CompositeRateLimitStatus,
+  LimitDefinition,
+  LimitResult,
+  LimitStatus,
+  RemoteLimits,
+  ThrottleOptions,
+  Throttled,
+  ThrottledFetchOptions,
+  ThrottledFetch,
+  CircuitBreakerOptions,
+  CircuitState,
+  GuardedStorageOptions,
+  RateLimiterHooks,
+  RateLimitEvent,
+  StorageErrorEvent,
+  StorageLatencyEvent,
+  MetricsCollectorOptions,
+  HotKey,
 };
 
 // Re-export classes for advanced usage
 export { TokenBucket } from './algorithms/token-bucket';
+export { SlidingWindowLog } from './algorithms/sliding-window-log';
+export { SlidingWindowCounter } from './algorithms/sliding-window-counter';
+export { FixedWindow } from './algorithms/fixed-window';
+export { Gcra } from './algorithms/gcra';
 export { MemoryStorage } from './storage/memory';
+export { RedisStorage, fromNodeRedis } from './storage/redis';
+export { GuardedStorage } from './storage/guarded';
+export { CircuitBreaker } from './storage/circuit-breaker';
+export { MetricsCollector } from './metrics/collector';
+export { ConcurrencyLimiter } from './limiters/concurrency';
+export { TemporaryBans } from './limiters/bans';
+export { CompositeRateLimiter } from './limiters/composite';
+export { throttle, createThrottledFetch, remoteLimitsFromHeaders } from './client/throttle';
+export {
+  RateLimiterError,
+  QueueFullError,
+  QueueTimeoutError,
+  StorageTimeoutError,
+  CircuitOpenError,
+  RulesConfigError,
+} from './errors';
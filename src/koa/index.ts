@@ -0,0 +1,2 @@
+export { koaRateLimit, type KoaRateLimitOptions } from '../middleware/koa';
+export type { HeadersFormat } from '../middleware/headers';
@@ -0,0 +1,145 @@
+import { notify } from '../metrics/hooks';
+import { MemoryStorage } from '../storage/memory';
+import type { StorageAdapter, BanState } from '../storage/types';
+import type { StorageConfig } from '../index';
+
+export interface TemporaryBanOptions extends StorageConfig {
+  /** Denials within `windowMs` that get a key banned */
+  maxDenials: number;
+  /** Time window in ms denials are counted over */
+  windowMs: number;
+  /** How long a ban lasts in ms */
+  banMs: number;
+  /**
+   * Prefix of the storage keys (default: 'ban:')
+   * Keeps ban state apart from limiter state in a shared storage
+   */
+  prefix?: string;
+  /** Called when a key gets banned (errors are ignored) */
+  onBan?: (key: string, bannedUntil: number) => void;
+}
+
+/**
+ * Bans keys that keep getting denied, for a while
+ *
+ * State lives in the storage adapter, so with a shared storage (e.g. Redis)
+ * a ban applies in every process.
+ *
+ * @example
+ * ```typescript
+ * // Ban for 15 minutes after 10 denials within a minute
+ * const bans = new TemporaryBans({ maxDenials: 10, windowMs: 60000, banMs: 900000 });
+ *
+ * const result = await limiter.consume(ip);
+ * if (!result.allowed) {
+ *   await bans.recordDenial(ip);
+ * }
+ * if (await bans.bannedUntil(ip)) {
+ *   // Reject without consulting the limiter
+ * }
+ * ```
+ */
+export class TemporaryBans {
+  private readonly maxDenials: number;
+  private readonly windowMs: number;
+  private readonly banMs: number;
+  private readonly prefix: string;
+  private readonly onBan: ((key: string, bannedUntil: number) => void) | undefined;
+  private readonly storage: StorageAdapter;
+  private readonly ownsStorage: boolean;
+
+  constructor(options: TemporaryBanOptions) {
+    this.maxDenials = options.maxDenials;
+    this.windowMs = options.windowMs;
+    this.banMs = options.banMs;
+    this.prefix = options.prefix ?? 'ban:';
+    this.onBan = options.onBan;
+
+    if (options.storage) {
+      this.storage = options.storage;
+      this.ownsStorage = false;
+    } else {
+      this.storage = new MemoryStorage(options.storageOptions);
+      this.ownsStorage = true;
+    }
+  }
+
+  /**
+   * Get when a key's ban ends
+   * @param key - Unique identifier (e.g., user ID, IP address)
+   * @returns Unix timestamp (ms) the ban ends at, or null if not banned
+   */
+  async bannedUntil(key: string): Promise<number | null> {
+    const state = await this.storage.get<BanState>(this.prefix + key);
+    return state && state.bannedUntil > Date.now() ? state.bannedUntil : null;
+  }
+
+  /**
+   * Count a denial against a key, banning it once it reaches `maxDenials`
+   * within `windowMs`
+   * @param key - Unique identifier (e.g., user ID, IP address)
+   * @returns Unix timestamp (ms) the key's ban ends at, or null if not banned
+   */
+  async recordDenial(key: string): Promise<number | null> {
+    const now = Date.now();
+    let banned = false;
+
+    const state = await this.storage.update<BanState>(
+      this.prefix + key,
+      (existing) => {
+        if (existing && existing.bannedUntil > now) {
+          // Already banned - nothing to count
+          return null;
+        }
+
+        const denials = (existing?.denials ?? []).filter((at) => at > now - this.windowMs);
+        denials.push(now);
+        if (denials.length >= this.maxDenials) {
+          banned = true;
+          return { denials: [], bannedUntil: now + this.banMs };
+        }
+        return { denials, bannedUntil: 0 };
+      },
+      // Long enough for either the counted denials or a new ban
+      Math.max(this.windowMs, this.banMs)
+    );
+
+    if (!state || state.bannedUntil <= now) {
+      return null;
+    }
+    if (banned) {
+      notify(this.onBan, key, state.bannedUntil);
+    }
+    return state.bannedUntil;
+  }
+
+  /**
+   * Ban a key right away
+   * @param key - Unique identifier (e.g., user ID, IP address)
+   * @param durationMs - How long the ban lasts (default: `banMs`)
+   * @returns Unix timestamp (ms) the ban ends at
+   */
+  async ban(key: string, durationMs: number = this.banMs): Promise<number> {
+    const state: BanState = { denials: [], bannedUntil: Date.now() + durationMs };
+    await this.storage.set(this.prefix + key, state, durationMs);
+    notify(this.onBan, key, state.bannedUntil);
+    return state.bannedUntil;
+  }
+
+  /**
+   * Lift a key's ban and forget its denials
+   * @param key - Unique identifier (e.g., user ID, IP address)
+   */
+  async unban(key: string): Promise<void> {
+    await this.storage.delete(this.prefix + key);
+  }
+
+  /**
+   * Clean up resources (stops cleanup timer if using default storage)
+   */
+  destroy(): void {
+    if (this.ownsStorage && this.storage instanceof MemoryStorage) {
+      this.storage.destroy();
+    }
+  }
+}
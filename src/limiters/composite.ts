@@ -0,0 +1,311 @@
+import { MemoryStorage } from '../storage/memory';
+import { createAlgorithm, type AlgorithmConfig } from '../algorithms/factory';
+import type {
+  RateLimitResult,
+  RateLimitStatus,
+  RateLimitAlgorithm,
+  StatefulAlgorithm,
+} from '../algorithms/types';
+import type { StorageAdapter } from '../storage/types';
+import type { StorageConfig } from '../index';
+
+/**
+ * A single limit within a composite limiter
+ */
+export type LimitDefinition = AlgorithmConfig & {
+  /** Unique name of the limit (e.g. 'second', 'minute', 'day') */
+  name: string;
+};
+
+export interface CompositeRateLimiterConfig extends StorageConfig {
+  /** Limits that must all allow a request */
+  limits: LimitDefinition[];
+}
+
+/**
+ * Result of a single limit within a composite result
+ */
+export interface LimitResult extends RateLimitResult {
+  /** Name of the limit */
+  name: string;
+  /** Maximum number of requests the limit allows */
+  capacity: number;
+}
+
+/**
+ * Result of checking or consuming against every limit
+ */
+export interface CompositeRateLimitResult extends RateLimitResult {
+  /** Per-limit results, in definition order */
+  limits: LimitResult[];
+}
+
+/**
+ * Status of a single limit within a composite status
+ */
+export interface LimitStatus extends RateLimitStatus {
+  /** Name of the limit */
+  name: string;
+}
+
+/**
+ * Status of every limit for a key
+ */
+export interface CompositeRateLimitStatus extends RateLimitStatus<Record<string, unknown>> {
+  /** Per-limit statuses, in definition order */
+  limits: LimitStatus[];
+}
+
+interface Tier {
+  name: string;
+  capacity: number;
+  algorithm: StatefulAlgorithm;
+}
+
+/**
+ * State of every limit for a key, stored together so they update atomically
+ */
+type CompositeState = Record<string, unknown>;
+
+/**
+ * Rate limiter enforcing several limits at once (e.g. 10/s, 300/min, 10000/day)
+ *
+ * - A request is allowed only if every limit allows it
+ * - Tokens are consumed from all limits or none
+ * - The combined result reports the most restrictive limit
+ *
+ * @example
+ * ```typescript
+ * const limiter = new CompositeRateLimiter({
+ *   limits: [
+ *     { name: 'second', capacity: 10, refillRate: 10, refillInterval: 1000 },
+ *     { name: 'minute', algorithm: 'fixed-window', capacity: 300, windowMs: 60000 },
+ *     { name: 'day', algorithm: 'fixed-window', capacity: 10000, windowMs: 86400000 },
+ *   ],
+ * });
+ *
+ * const result = await limiter.consume('user-123');
+ * ```
+ */
+export class CompositeRateLimiter implements RateLimitAlgorithm {
+  private readonly tiers: Tier[];
+  private readonly storage: StorageAdapter;
+  private readonly ownsStorage: boolean;
+
+  constructor(config: CompositeRateLimiterConfig) {
+    if (config.limits.length === 0) {
+      throw new Error('CompositeRateLimiter requires at least one limit');
+    }
+
+    if (config.storage) {
+      this.storage = config.storage;
+      this.ownsStorage = false;
+    } else {
+      this.storage = new MemoryStorage(config.storageOptions);
+      this.ownsStorage = true;
+    }
+
+    const names = new Set<string>();
+    this.tiers = config.limits.map((limit) => {
+      if (names.has(limit.name)) {
+        throw new Error(`CompositeRateLimiter: duplicate limit name "${limit.name}"`);
+      }
+      names.add(limit.name);
+      if ('resolveLimits' in limit && limit.resolveLimits) {
+        // Every tier is evaluated inside one storage update, without a key
+        throw new Error(
+          `CompositeRateLimiter: limit "${limit.name}" cannot resolve limits per key`
+        );
+      }
+      return {
+        name: limit.name,
+        capacity: limit.capacity,
+        algorithm: createAlgorithm(limit, this.storage),
+      };
+    });
+  }
+
+  /**
+   * Find the limit with the fewest remaining (latest reset on ties)
+   */
+  private binding<T extends { remaining: number; resetAt: number }>(limits: T[]): T {
+    return limits.reduce((most, limit) =>
+      limit.remaining < most.remaining ||
+      (limit.remaining === most.remaining && limit.resetAt > most.resetAt)
+        ? limit
+        : most
+    );
+  }
+
+  /**
+   * Combine per-limit results, reporting the limit with the fewest remaining
+   */
+  private combine(limits: LimitResult[]): CompositeRateLimitResult {
+    const binding = this.binding(limits);
+    const denied = limits.filter((limit) => !limit.allowed);
+
+    const result: CompositeRateLimitResult = {
+      allowed: denied.length === 0,
+      remaining: binding.remaining,
+      resetAt: binding.resetAt,
+      capacity: binding.capacity,
+      limits,
+    };
+
+    if (denied.length > 0) {
+      // Every denying limit has to recover before a retry can succeed
+      result.retryAfter = Math.max(...denied.map((limit) => limit.retryAfter ?? 0));
+      result.retryAt = Math.max(...denied.map((limit) => limit.retryAt ?? 0));
+    }
+
+    return result;
+  }
+
+  /**
+   * Build the status of every limit from the stored state
+   */
+  private buildStatus(state: CompositeState | null, now: number): CompositeRateLimitStatus {
+    const limits = this.tiers.map((tier): LimitStatus => {
+      const tierState = state?.[tier.name] ?? null;
+      const { remaining, resetAt } = tier.algorithm.peek(tierState, now);
+      return { name: tier.name, capacity: tier.capacity, remaining, resetAt, state: tierState };
+    });
+    const { capacity, remaining, resetAt } = this.binding(limits);
+
+    return { capacity, remaining, resetAt, state, limits };
+  }
+
+  /**
+   * Add or remove tokens in every limit in a single atomic step
+   */
+  private async applyAdjustment(key: string, tokens: number): Promise<CompositeRateLimitStatus> {
+    const now = Date.now();
+    const ttlMs = Math.max(...this.tiers.map((tier) => tier.algorithm.ttlFor(now)));
+
+    const state = await this.storage.update<CompositeState>(
+      key,
+      (existing) => {
+        const next: CompositeState = { ...existing };
+        let changed = false;
+        for (const tier of this.tiers) {
+          const tierState = tier.algorithm.adjust(existing?.[tier.name] ?? null, tokens, now);
+          if (tierState !== null) {
+            next[tier.name] = tierState;
+            changed = true;
+          }
+        }
+        return changed ? next : null;
+      },
+      ttlMs
+    );
+
+    return this.buildStatus(state, now);
+  }
+
+  /**
+   * Check if a request would be allowed by every limit without consuming tokens
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   */
+  async check(key: string): Promise<CompositeRateLimitResult> {
+    const now = Date.now();
+    const state = await this.storage.get<CompositeState>(key);
+
+    return this.combine(
+      this.tiers.map((tier) => ({
+        name: tier.name,
+        capacity: tier.capacity,
+        ...tier.algorithm.peek(state?.[tier.name] ?? null, now),
+      }))
+    );
+  }
+
+  /**
+   * Consume tokens from every limit, or from none if any limit denies
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param tokens - Number of tokens to consume (default: 1)
+   */
+  async consume(key: string, tokens: number = 1): Promise<CompositeRateLimitResult> {
+    const now = Date.now();
+    const ttlMs = Math.max(...this.tiers.map((tier) => tier.algorithm.ttlFor(now)));
+    let result!: CompositeRateLimitResult;
+
+    await this.storage.update<CompositeState>(
+      key,
+      (existing) => {
+        const evaluations = this.tiers.map((tier) =>
+          tier.algorithm.evaluate(existing?.[tier.name] ?? null, tokens, now)
+        );
+        const allowed = evaluations.every((evaluation) => evaluation.result.allowed);
+
+        result = this.combine(
+          this.tiers.map((tier, i) => ({
+            name: tier.name,
+            capacity: tier.capacity,
+            // When denied, limits that would have allowed report their untouched state
+            ...(allowed || !evaluations[i].result.allowed
+              ? evaluations[i].result
+              : tier.algorithm.evaluate(existing?.[tier.name] ?? null, 0, now).result),
+          }))
+        );
+
+        if (!allowed) {
+          return null;
+        }
+
+        const next: CompositeState = { ...existing };
+        this.tiers.forEach((tier, i) => {
+          if (evaluations[i].state !== null) {
+            next[tier.name] = evaluations[i].state;
+          }
+        });
+        return next;
+      },
+      ttlMs
+    );
+
+    return result;
+  }
+
+  /**
+   * Give tokens back to every limit, never exceeding capacity
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param tokens - Number of tokens to give back (default: 1)
+   */
+  async refund(key: string, tokens: number = 1): Promise<CompositeRateLimitStatus> {
+    return this.applyAdjustment(key, tokens);
+  }
+
+  /**
+   * Take tokens from every limit as a penalty, never going below empty
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   * @param tokens - Number of tokens to take (default: 1)
+   */
+  async penalize(key: string, tokens: number = 1): Promise<CompositeRateLimitStatus> {
+    return this.applyAdjustment(key, -tokens);
+  }
+
+  /**
+   * Clear every limit for a key
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   */
+  async reset(key: string): Promise<void> {
+    await this.storage.delete(key);
+  }
+
+  /**
+   * Get the status of every limit for a key
+   * @param key - Unique identifier (e.g., user ID, IP address, API key)
+   */
+  async get(key: string): Promise<CompositeRateLimitStatus> {
+    return this.buildStatus(await this.storage.get<CompositeState>(key), Date.now());
+  }
+
+  /**
+   * Clean up resources (stops cleanup timer if using default storage)
+   */
+  destroy(): void {
+    if (this.ownsStorage && this.storage instanceof MemoryStorage) {
+      this.storage.destroy();
+    }
+  }
+}
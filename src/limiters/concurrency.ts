@@ -0,0 +1,163 @@
+import { MemoryStorage } from '../storage/memory';
+import type { StorageAdapter, ConcurrencyState } from '../storage/types';
+import type { StorageConfig } from '../index';
+
+export interface ConcurrencyLimiterOptions extends StorageConfig {
+  /** Maximum number of leases held at once per key */
+  maxConcurrent: number;
+  /**
+   * Time in ms after which an unreleased lease expires (default: 60000)
+   * Protects against holders that crash without releasing
+   */
+  leaseTtlMs?: number;
+}
+
+/**
+ * A slot held against a concurrency limit
+ */
+export interface Lease {
+  /** Key the lease was acquired for */
+  key: string;
+  /** Unique lease identifier */
+  id: string;
+  /** Unix timestamp (ms) when the lease expires if not released */
+  expiresAt: number;
+  /** Give the slot back (safe to call more than once) */
+  release(): Promise<void>;
+}
+
+/**
+ * Generate a lease identifier unique enough to share a key across processes
+ */
+function createLeaseId(now: number): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Limits how many operations may run at once per key
+ *
+ * @example
+ * ```typescript
+ * const limiter = new ConcurrencyLimiter({ maxConcurrent: 5 });
+ *
+ * const lease = await limiter.acquire('reports');
+ * if (!lease) {
+ *   return; // Too many in flight
+ * }
+ * try {
+ *   await buildReport();
+ * } finally {
+ *   await lease.release();
+ * }
+ * ```
+ */
+export class ConcurrencyLimiter {
+  private readonly maxConcurrent: number;
+  private readonly leaseTtlMs: number;
+  private readonly storage: StorageAdapter;
+  private readonly ownsStorage: boolean;
+
+  constructor(options: ConcurrencyLimiterOptions) {
+    this.maxConcurrent = options.maxConcurrent;
+    this.leaseTtlMs = options.leaseTtlMs ?? 60000;
+
+    if (options.storage) {
+      this.storage = options.storage;
+      this.ownsStorage = false;
+    } else {
+      this.storage = new MemoryStorage(options.storageOptions);
+      this.ownsStorage = true;
+    }
+  }
+
+  /**
+   * Drop leases whose holders never released them
+   */
+  private activeLeases(state: ConcurrencyState | null, now: number): Record<string, number> {
+    const leases: Record<string, number> = {};
+    for (const [id, expiresAt] of Object.entries(state?.leases ?? {})) {
+      if (expiresAt > now) {
+        leases[id] = expiresAt;
+      }
+    }
+    return leases;
+  }
+
+  /**
+   * Acquire a slot for a key
+   * @param key - Unique identifier (e.g., route, user ID)
+   * @returns The lease, or null if `maxConcurrent` leases are already held
+   */
+  async acquire(key: string): Promise<Lease | null> {
+    const now = Date.now();
+    const id = createLeaseId(now);
+    const expiresAt = now + this.leaseTtlMs;
+    let acquired = false;
+
+    await this.storage.update<ConcurrencyState>(
+      key,
+      (existing) => {
+        const leases = this.activeLeases(existing, now);
+        if (Object.keys(leases).length >= this.maxConcurrent) {
+          return null;
+        }
+        leases[id] = expiresAt;
+        acquired = true;
+        return { leases };
+      },
+      this.leaseTtlMs
+    );
+
+    if (!acquired) {
+      return null;
+    }
+
+    let released = false;
+    return {
+      key,
+      id,
+      expiresAt,
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        await this.releaseLease(key, id);
+      },
+    };
+  }
+
+  /**
+   * Get the number of unexpired leases held for a key
+   * @param key - Unique identifier (e.g., route, user ID)
+   */
+  async active(key: string): Promise<number> {
+    const state = await this.storage.get<ConcurrencyState>(key);
+    return Object.keys(this.activeLeases(state, Date.now())).length;
+  }
+
+  private async releaseLease(key: string, id: string): Promise<void> {
+    const now = Date.now();
+    await this.storage.update<ConcurrencyState>(
+      key,
+      (existing) => {
+        if (!existing || !(id in existing.leases)) {
+          return null;
+        }
+        const leases = this.activeLeases(existing, now);
+        delete leases[id];
+        return { leases };
+      },
+      this.leaseTtlMs
+    );
+  }
+
+  /**
+   * Clean up resources (stops cleanup timer if using default storage)
+   */
+  destroy(): void {
+    if (this.ownsStorage && this.storage instanceof MemoryStorage) {
+      this.storage.destroy();
+    }
+  }
+}
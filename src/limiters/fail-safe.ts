@@ -0,0 +1,67 @@
+import type {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitStatus,
+} from '../algorithms/types';
+
+/**
+ * Answer given by check/consume when the algorithm fails
+ * - `fail-open`: allow the request
+ * - `fail-closed`: deny the request, retrying after a second
+ */
+export type FailSafeMode = 'fail-open' | 'fail-closed';
+
+/**
+ * Algorithm wrapper answering check/consume from a fixed policy when the
+ * wrapped algorithm throws (e.g. its storage is down)
+ *
+ * refund/penalize/reset/get still throw: there is no sensible answer to make up.
+ */
+export class FailSafeAlgorithm implements RateLimitAlgorithm {
+  private readonly algorithm: RateLimitAlgorithm;
+  private readonly mode: FailSafeMode;
+
+  constructor(algorithm: RateLimitAlgorithm, mode: FailSafeMode) {
+    this.algorithm = algorithm;
+    this.mode = mode;
+  }
+
+  private failed(): RateLimitResult {
+    const now = Date.now();
+    return this.mode === 'fail-open'
+      ? { allowed: true, remaining: 0, resetAt: now }
+      : { allowed: false, remaining: 0, resetAt: now + 1000, retryAfter: 1, retryAt: now + 1000 };
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    try {
+      return await this.algorithm.check(key);
+    } catch {
+      return this.failed();
+    }
+  }
+
+  async consume(key: string, tokens?: number): Promise<RateLimitResult> {
+    try {
+      return await this.algorithm.consume(key, tokens);
+    } catch {
+      return this.failed();
+    }
+  }
+
+  async refund(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.refund(key, tokens);
+  }
+
+  async penalize(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.penalize(key, tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    return this.algorithm.reset(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus> {
+    return this.algorithm.get(key);
+  }
+}
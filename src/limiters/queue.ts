@@ -0,0 +1,239 @@
+import { QueueFullError, QueueTimeoutError } from '../errors';
+import type { RateLimitAlgorithm, RateLimitResult } from '../algorithms/types';
+
+export interface QueueOptions {
+  /** Maximum number of callers waiting per key (default: unlimited) */
+  maxQueueLength?: number;
+  /** Default maximum time in ms a caller may wait (default: unlimited) */
+  maxWaitMs?: number;
+}
+
+export interface AcquireOptions {
+  /** Number of tokens to consume (default: 1) */
+  tokens?: number;
+  /** Maximum time in ms to wait before rejecting with QueueTimeoutError */
+  maxWaitMs?: number;
+  /** Abort waiting; rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (result: RateLimitResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Reason used when an AbortSignal has none (older runtimes)
+ */
+function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Per-key FIFO of callers waiting for a rate limit to allow them
+ *
+ * - Callers are served strictly in arrival order per key
+ * - The head of the queue is retried once the algorithm's `retryAt` has passed
+ * - Waiting can be bounded by queue length, time and an AbortSignal
+ */
+export class RateLimitQueue {
+  private readonly algorithm: RateLimitAlgorithm;
+  private readonly maxQueueLength: number;
+  private readonly maxWaitMs: number | undefined;
+  private readonly queues = new Map<string, Waiter[]>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private closedWith: { error: unknown } | null = null;
+
+  constructor(algorithm: RateLimitAlgorithm, options: QueueOptions = {}) {
+    this.algorithm = algorithm;
+    this.maxQueueLength = options.maxQueueLength ?? Infinity;
+    this.maxWaitMs = options.maxWaitMs;
+  }
+
+  /**
+   * Wait until tokens for the key have been consumed
+   */
+  async acquire(key: string, options: AcquireOptions = {}): Promise<RateLimitResult> {
+    const tokens = options.tokens ?? 1;
+    const signal = options.signal;
+    this.assertOpen(signal);
+
+    let retryIn = 0;
+    if (!this.queues.has(key)) {
+      // Nobody is waiting, so there's no one to overtake
+      const result = await this.algorithm.consume(key, tokens);
+      if (result.allowed) {
+        return result;
+      }
+      retryIn = this.waitFor(result);
+      // Closed or aborted while consuming
+      this.assertOpen(signal);
+    }
+
+    const queue = this.queues.get(key) ?? [];
+    if (queue.length >= this.maxQueueLength) {
+      throw new QueueFullError(key, this.maxQueueLength);
+    }
+
+    return new Promise<RateLimitResult>((resolve, reject) => {
+      const maxWaitMs = options.maxWaitMs ?? this.maxWaitMs;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = (): void => {
+        if (timeout) {
+          clearTimeout(timeout);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const abandon = (error: unknown): void => {
+        cleanup();
+        this.remove(key, waiter);
+        reject(error);
+      };
+      const onAbort = (): void => abandon(abortReason(signal!));
+
+      const waiter: Waiter = {
+        tokens,
+        resolve: (result) => {
+          cleanup();
+          resolve(result);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      if (maxWaitMs !== undefined) {
+        timeout = setTimeout(() => abandon(new QueueTimeoutError(key, maxWaitMs)), maxWaitMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      queue.push(waiter);
+      if (!this.queues.has(key)) {
+        this.queues.set(key, queue);
+        this.scheduleDrain(key, retryIn);
+      }
+    });
+  }
+
+  /**
+   * Number of callers waiting for a key
+   */
+  size(key: string): number {
+    return this.queues.get(key)?.length ?? 0;
+  }
+
+  /**
+   * Reject every waiting caller, stop all timers and refuse new callers
+   */
+  close(error: unknown): void {
+    this.closedWith = { error };
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    const queues = [...this.queues.values()];
+    this.queues.clear();
+    for (const queue of queues) {
+      for (const waiter of queue) {
+        waiter.reject(error);
+      }
+    }
+  }
+
+  private assertOpen(signal: AbortSignal | undefined): void {
+    if (this.closedWith) {
+      throw this.closedWith.error;
+    }
+    if (signal?.aborted) {
+      throw abortReason(signal);
+    }
+  }
+
+  private remove(key: string, waiter: Waiter): void {
+    const queue = this.queues.get(key);
+    if (!queue) {
+      return;
+    }
+    const index = queue.indexOf(waiter);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+    if (queue.length === 0) {
+      this.queues.delete(key);
+      const timer = this.timers.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Time in ms until a denied request may be retried
+   *
+   * Prefers the exact `retryAt`: `retryAfter` is rounded up to whole seconds,
+   * which would hold sub-second limits to one request per second.
+   */
+  private waitFor(result: RateLimitResult): number {
+    if (result.retryAt !== undefined) {
+      return Math.max(0, result.retryAt - Date.now());
+    }
+    return (result.retryAfter ?? 0) * 1000;
+  }
+
+  private scheduleDrain(key: string, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+      void this.drain(key);
+    }, delayMs);
+    this.timers.set(key, timer);
+  }
+
+  /**
+   * Serve waiters from the head of the queue until one is denied
+   */
+  private async drain(key: string): Promise<void> {
+    const queue = this.queues.get(key);
+    while (queue && queue.length > 0) {
+      const waiter = queue[0];
+
+      let result: RateLimitResult;
+      try {
+        result = await this.algorithm.consume(key, waiter.tokens);
+      } catch (error) {
+        this.remove(key, waiter);
+        waiter.reject(error);
+        continue;
+      }
+
+      if (queue[0] !== waiter) {
+        // Waiter gave up while we were consuming; give its tokens back and
+        // serve whoever is next
+        if (result.allowed) {
+          try {
+            await this.algorithm.refund(key, waiter.tokens);
+          } catch {
+            // The waiter has already been rejected - nothing left to report to
+          }
+        }
+        continue;
+      }
+      if (!result.allowed) {
+        this.scheduleDrain(key, this.waitFor(result));
+        return;
+      }
+
+      this.remove(key, waiter);
+      waiter.resolve(result);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { notify, type RateLimitEvent } from '../metrics/hooks';
+import type {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitStatus,
+} from '../algorithms/types';
+
+/**
+ * Algorithm wrapper that evaluates a limit without enforcing it
+ *
+ * Every check/consume is allowed; results the limit would have denied carry
+ * `shadowDenied: true` and are reported to `onShadowDenied`.
+ */
+export class ShadowAlgorithm implements RateLimitAlgorithm {
+  private readonly algorithm: RateLimitAlgorithm;
+  private readonly limiter: string;
+  private readonly onShadowDenied: ((event: RateLimitEvent) => void) | undefined;
+
+  constructor(
+    algorithm: RateLimitAlgorithm,
+    limiter: string,
+    onShadowDenied: ((event: RateLimitEvent) => void) | undefined
+  ) {
+    this.algorithm = algorithm;
+    this.limiter = limiter;
+    this.onShadowDenied = onShadowDenied;
+  }
+
+  private allow(result: RateLimitResult): RateLimitResult {
+    if (result.allowed) {
+      return result;
+    }
+    const { retryAfter: _retryAfter, retryAt: _retryAt, ...rest } = result;
+    return { ...rest, allowed: true, shadowDenied: true };
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.allow(await this.algorithm.check(key));
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const result = await this.algorithm.consume(key, tokens);
+    if (!result.allowed) {
+      notify(this.onShadowDenied, { limiter: this.limiter, key, tokens, result });
+    }
+    return this.allow(result);
+  }
+
+  async refund(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.refund(key, tokens);
+  }
+
+  async penalize(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.penalize(key, tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    return this.algorithm.reset(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus> {
+    return this.algorithm.get(key);
+  }
+}
@@ -0,0 +1,277 @@
+import type { RateLimiterHooks } from './hooks';
+
+export interface MetricsCollectorOptions {
+  /** Prefix of every metric name (default: 'ratelimit_') */
+  prefix?: string;
+  /**
+   * Upper bounds in seconds of the storage latency histogram buckets
+   * (default: 1ms to 1s)
+   */
+  buckets?: number[];
+  /** Keys tracked per limiter for `hotKeys` (default: 1000) */
+  maxHotKeys?: number;
+}
+
+/**
+ * Denials counted for a key
+ */
+export interface HotKey {
+  key: string;
+  denied: number;
+}
+
+/**
+ * Most denied keys of a limiter, as a min-heap on denials
+ */
+interface HotKeyHeap {
+  entries: HotKey[];
+  /** key -> position in `entries` */
+  positions: Map<string, number>;
+}
+
+interface Histogram {
+  /** Observations per bucket (not cumulative), with one extra for +Inf */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Render a label set, e.g. `{limiter="api",outcome="denied"}`
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Swap two heap entries
+ */
+function swap(heap: HotKeyHeap, a: number, b: number): void {
+  const { entries, positions } = heap;
+  [entries[a], entries[b]] = [entries[b], entries[a]];
+  positions.set(entries[a].key, a);
+  positions.set(entries[b].key, b);
+}
+
+/**
+ * Restore the heap order above a newly added entry
+ */
+function siftUp(heap: HotKeyHeap, index: number): void {
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap.entries[parent].denied <= heap.entries[index].denied) {
+      return;
+    }
+    swap(heap, parent, index);
+    index = parent;
+  }
+}
+
+/**
+ * Restore the heap order below an entry whose denials went up
+ */
+function siftDown(heap: HotKeyHeap, index: number): void {
+  const { entries } = heap;
+  for (;;) {
+    const left = 2 * index + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < entries.length && entries[left].denied < entries[smallest].denied) {
+      smallest = left;
+    }
+    if (right < entries.length && entries[right].denied < entries[smallest].denied) {
+      smallest = right;
+    }
+    if (smallest === index) {
+      return;
+    }
+    swap(heap, index, smallest);
+    index = smallest;
+  }
+}
+
+/**
+ * Aggregates RateLimiter events into counters and histograms per limiter name
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ *
+ * const limiter = new RateLimiter({
+ *   name: 'api',
+ *   capacity: 100,
+ *   refillRate: 100,
+ *   refillInterval: 60000,
+ *   hooks: metrics.hooks,
+ * });
+ *
+ * app.get('/metrics', createMetricsHandler(metrics));
+ * ```
+ */
+export class MetricsCollector {
+  /** Hooks to pass to one or more RateLimiters */
+  readonly hooks: RateLimiterHooks;
+
+  private readonly prefix: string;
+  private readonly buckets: number[];
+  private readonly maxHotKeys: number;
+  /** `limiter\0outcome` -> count */
+  private readonly decisions = new Map<string, number>();
+  /** `limiter\0operation` -> count */
+  private readonly storageErrors = new Map<string, number>();
+  /** `limiter\0operation` -> latency histogram */
+  private readonly storageLatency = new Map<string, Histogram>();
+  /** limiter -> most denied keys */
+  private readonly denials = new Map<string, HotKeyHeap>();
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    this.prefix = options.prefix ?? 'ratelimit_';
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.maxHotKeys = options.maxHotKeys ?? 1000;
+
+    this.hooks = {
+      onAllowed: (event) => this.increment(this.decisions, event.limiter, 'allowed'),
+      onDenied: (event) => {
+        this.increment(this.decisions, event.limiter, 'denied');
+        this.countDenial(event.limiter, event.key);
+      },
+      onStorageError: (event) =>
+        this.increment(this.storageErrors, event.limiter, event.operation),
+      onStorageLatency: (event) =>
+        this.observe(event.limiter, event.operation, event.durationMs / 1000),
+    };
+  }
+
+  private increment(counters: Map<string, number>, limiter: string, label: string): void {
+    const id = `${limiter}\0${label}`;
+    counters.set(id, (counters.get(id) ?? 0) + 1);
+  }
+
+  private observe(limiter: string, operation: string, seconds: number): void {
+    const id = `${limiter}\0${operation}`;
+    let histogram = this.storageLatency.get(id);
+    if (!histogram) {
+      histogram = { counts: new Array<number>(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.storageLatency.set(id, histogram);
+    }
+
+    const index = this.buckets.findIndex((bound) => seconds <= bound);
+    histogram.counts[index === -1 ? this.buckets.length : index]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Count a denial with the space-saving algorithm: once `maxHotKeys` keys
+   * are tracked, a new key replaces the coldest one and inherits its count,
+   * so a key turning hot always surfaces (counts may then be overestimated
+   * by up to the count inherited)
+   */
+  private countDenial(limiter: string, key: string): void {
+    let heap = this.denials.get(limiter);
+    if (!heap) {
+      heap = { entries: [], positions: new Map() };
+      this.denials.set(limiter, heap);
+    }
+
+    const position = heap.positions.get(key);
+    if (position !== undefined) {
+      heap.entries[position].denied++;
+      siftDown(heap, position);
+      return;
+    }
+
+    if (heap.entries.length < this.maxHotKeys) {
+      heap.positions.set(key, heap.entries.length);
+      heap.entries.push({ key, denied: 1 });
+      siftUp(heap, heap.entries.length - 1);
+      return;
+    }
+
+    // Replace the coldest key
+    const coldest = heap.entries[0];
+    if (!coldest) {
+      // maxHotKeys is 0
+      return;
+    }
+    heap.positions.delete(coldest.key);
+    heap.positions.set(key, 0);
+    heap.entries[0] = { key, denied: coldest.denied + 1 };
+    siftDown(heap, 0);
+  }
+
+  /**
+   * Keys with the most denials for a limiter, most denied first
+   * @param limiter - Limiter name
+   * @param limit - Maximum number of keys to return (default: 10)
+   */
+  hotKeys(limiter: string, limit: number = 10): HotKey[] {
+    const entries = this.denials.get(limiter)?.entries ?? [];
+    return entries
+      .map(({ key, denied }) => ({ key, denied }))
+      .sort((a, b) => b.denied - a.denied)
+      .slice(0, limit);
+  }
+
+  /**
+   * Forget everything collected so far
+   */
+  reset(): void {
+    this.decisions.clear();
+    this.storageErrors.clear();
+    this.storageLatency.clear();
+    this.denials.clear();
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const requests = `${this.prefix}requests_total`;
+    const errors = `${this.prefix}storage_errors_total`;
+    const latency = `${this.prefix}storage_duration_seconds`;
+
+    lines.push(`# HELP ${requests} Rate limit decisions by outcome.`);
+    lines.push(`# TYPE ${requests} counter`);
+    for (const [id, count] of this.decisions) {
+      const [limiter, outcome] = id.split('\0');
+      lines.push(`${requests}${formatLabels({ limiter, outcome })} ${count}`);
+    }
+
+    lines.push(`# HELP ${errors} Storage operations that failed.`);
+    lines.push(`# TYPE ${errors} counter`);
+    for (const [id, count] of this.storageErrors) {
+      const [limiter, operation] = id.split('\0');
+      lines.push(`${errors}${formatLabels({ limiter, operation })} ${count}`);
+    }
+
+    lines.push(`# HELP ${latency} Duration of storage operations.`);
+    lines.push(`# TYPE ${latency} histogram`);
+    for (const [id, histogram] of this.storageLatency) {
+      const [limiter, operation] = id.split('\0');
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += histogram.counts[i];
+        const labels = formatLabels({ limiter, operation, le: String(bound) });
+        lines.push(`${latency}_bucket${labels} ${cumulative}`);
+      });
+      const infLabels = formatLabels({ limiter, operation, le: '+Inf' });
+      lines.push(`${latency}_bucket${infLabels} ${histogram.count}`);
+      lines.push(`${latency}_sum${formatLabels({ limiter, operation })} ${histogram.sum}`);
+      lines.push(`${latency}_count${formatLabels({ limiter, operation })} ${histogram.count}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
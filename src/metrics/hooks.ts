@@ -0,0 +1,200 @@
+import type {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitStatus,
+} from '../algorithms/types';
+import type {
+  StorageAdapter,
+  BucketState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
+} from '../storage/types';
+
+/**
+ * A rate limit decision
+ */
+export interface RateLimitEvent {
+  /** Name of the limiter (`name` option, default: 'default') */
+  limiter: string;
+  key: string;
+  tokens: number;
+  result: RateLimitResult;
+}
+
+/**
+ * A storage operation that threw
+ */
+export interface StorageErrorEvent {
+  limiter: string;
+  /** Storage method, e.g. 'update' */
+  operation: string;
+  error: unknown;
+}
+
+/**
+ * Time taken by a storage operation (successful or not)
+ */
+export interface StorageLatencyEvent {
+  limiter: string;
+  /** Storage method, e.g. 'update' */
+  operation: string;
+  durationMs: number;
+}
+
+/**
+ * Callbacks observing a RateLimiter
+ *
+ * Hooks run synchronously on the hot path, so keep them cheap; errors they
+ * throw are ignored.
+ */
+export interface RateLimiterHooks {
+  /** A `consume` (including each queue retry) was allowed */
+  onAllowed?: (event: RateLimitEvent) => void;
+  /** A `consume` (including each queue retry) was denied */
+  onDenied?: (event: RateLimitEvent) => void;
+  /** A storage operation threw */
+  onStorageError?: (event: StorageErrorEvent) => void;
+  /** A storage operation finished */
+  onStorageLatency?: (event: StorageLatencyEvent) => void;
+}
+
+/**
+ * Call an observer if there is one, ignoring errors
+ */
+export function notify<A extends unknown[]>(
+  observer: ((...args: A) => void) | undefined,
+  ...args: A
+): void {
+  try {
+    observer?.(...args);
+  } catch {
+    // Observers must never break rate limiting
+  }
+}
+
+/**
+ * Call a hook on each hook set, ignoring errors
+ */
+export function emit<E>(
+  hooks: RateLimiterHooks[],
+  pick: (hooks: RateLimiterHooks) => ((event: E) => void) | undefined,
+  event: E
+): void {
+  for (const set of hooks) {
+    notify(pick(set), event);
+  }
+}
+
+/**
+ * Storage adapter reporting the latency and errors of another
+ */
+export class InstrumentedStorage implements StorageAdapter {
+  private readonly storage: StorageAdapter;
+  private readonly limiter: string;
+  private readonly hooks: RateLimiterHooks[];
+
+  consumeTokens?: (
+    key: string,
+    request: TokenBucketRequest,
+    ttlMs: number
+  ) => Promise<TokenBucketOutcome>;
+
+  constructor(storage: StorageAdapter, limiter: string, hooks: RateLimiterHooks[]) {
+    this.storage = storage;
+    this.limiter = limiter;
+    this.hooks = hooks;
+
+    const consumeTokens = storage.consumeTokens;
+    if (consumeTokens) {
+      this.consumeTokens = (key, request, ttlMs) =>
+        this.measure('consumeTokens', () => consumeTokens.call(storage, key, request, ttlMs));
+    }
+  }
+
+  private async measure<T>(operation: string, run: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await run();
+    } catch (error) {
+      emit(this.hooks, (hooks) => hooks.onStorageError, {
+        limiter: this.limiter,
+        operation,
+        error,
+      });
+      throw error;
+    } finally {
+      emit(this.hooks, (hooks) => hooks.onStorageLatency, {
+        limiter: this.limiter,
+        operation,
+        durationMs: performance.now() - start,
+      });
+    }
+  }
+
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
+    return this.measure('get', () => this.storage.get<TState>(key));
+  }
+
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
+    return this.measure('set', () => this.storage.set(key, state, ttlMs));
+  }
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    return this.measure('update', () => this.storage.update(key, updater, ttlMs));
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.measure('delete', () => this.storage.delete(key));
+  }
+}
+
+/**
+ * Algorithm wrapper reporting each `consume` decision
+ */
+export class InstrumentedAlgorithm implements RateLimitAlgorithm {
+  private readonly algorithm: RateLimitAlgorithm;
+  private readonly limiter: string;
+  private readonly hooks: RateLimiterHooks[];
+
+  constructor(algorithm: RateLimitAlgorithm, limiter: string, hooks: RateLimiterHooks[]) {
+    this.algorithm = algorithm;
+    this.limiter = limiter;
+    this.hooks = hooks;
+  }
+
+  async check(key: string): Promise<RateLimitResult> {
+    return this.algorithm.check(key);
+  }
+
+  async consume(key: string, tokens: number = 1): Promise<RateLimitResult> {
+    const result = await this.algorithm.consume(key, tokens);
+    const event = { limiter: this.limiter, key, tokens, result };
+    if (result.allowed) {
+      emit(this.hooks, (hooks) => hooks.onAllowed, event);
+    } else {
+      emit(this.hooks, (hooks) => hooks.onDenied, event);
+    }
+    return result;
+  }
+
+  async refund(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.refund(key, tokens);
+  }
+
+  async penalize(key: string, tokens?: number): Promise<RateLimitStatus> {
+    return this.algorithm.penalize(key, tokens);
+  }
+
+  async reset(key: string): Promise<void> {
+    return this.algorithm.reset(key);
+  }
+
+  async get(key: string): Promise<RateLimitStatus> {
+    return this.algorithm.get(key);
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  TemporaryBans,
+  type RateLimitResult,
+  type StorageAdapter,
+  type TemporaryBanOptions,
+} from '../index';
+import { inSubnet, parseSubnet, type Subnet } from './ip';
+
+/**
+ * Settings letting clients through or turning them away, whatever the limit
+ */
+export interface AccessSettings {
+  /**
+   * Keys, IP addresses or CIDR subnets that bypass rate limiting
+   * Default: none
+   */
+  allowlist?: string[];
+
+  /**
+   * Keys, IP addresses or CIDR subnets rejected outright
+   * Default: none
+   */
+  denylist?: string[];
+
+  /**
+   * Ban keys denied `maxDenials` times within `windowMs` for `banMs`
+   * (state is kept in the limiter's storage unless given its own)
+   * Default: no bans
+   */
+  ban?: TemporaryBanOptions;
+}
+
+/**
+ * Allowlist, denylist and ban checks for a key
+ */
+export interface AccessControl {
+  /**
+   * Decide on a key before it is rate limited
+   * @returns 'allow' to bypass rate limiting, a result to reject the request
+   * with (`blocked` is set), or null to rate limit it as usual
+   */
+  check(key: string): Promise<'allow' | RateLimitResult | null>;
+
+  /**
+   * Count a denial towards a ban, extending the result's retry time to the
+   * end of the ban if the key gets banned
+   */
+  recordDenial(key: string, result: RateLimitResult): Promise<void>;
+}
+
+/**
+ * Create a function testing whether a rate limit key is on a list of keys,
+ * IP addresses and CIDR subnets
+ *
+ * The whole key must match: parts of a `combineKeys` key are never matched on
+ * their own, since clients control some of them (paths, headers, claims).
+ * Addresses and subnets also match keys naming a subnet inside them, such as
+ * the `2001:db8::/64` keys `ipKey` gives IPv6 clients.
+ *
+ * @example
+ * ```typescript
+ * const isListed = createKeyMatcher(['10.0.0.0/8', '2001:db8::/32', 'x-api-key:internal']);
+ *
+ * isListed('10.1.2.3'); // true
+ * isListed('2001:db8:1:2::/64'); // true
+ * isListed('x-api-key:internal'); // true
+ * isListed('/search|10.1.2.3'); // false
+ * ```
+ */
+export function createKeyMatcher(entries: string[]): (key: string) => boolean {
+  const keys = new Set<string>();
+  const subnets: Subnet[] = [];
+  for (const entry of entries) {
+    const subnet = parseSubnet(entry);
+    if (subnet) {
+      subnets.push(subnet);
+    } else {
+      keys.add(entry);
+    }
+  }
+
+  return (key) => {
+    if (keys.has(key)) {
+      return true;
+    }
+    const subnet = subnets.length > 0 ? parseSubnet(key) : null;
+    return (
+      subnet !== null &&
+      subnets.some((entry) => subnet.prefix >= entry.prefix && inSubnet(subnet, entry))
+    );
+  };
+}
+
+/**
+ * Create the allowlist, denylist and ban checks
+ * @param settings - Lists and ban options
+ * @param storage - Storage for bans when the ban options have none
+ */
+export function createAccessControl(
+  settings: AccessSettings,
+  storage?: StorageAdapter
+): AccessControl {
+  const isAllowlisted = settings.allowlist ? createKeyMatcher(settings.allowlist) : null;
+  const isDenylisted = settings.denylist ? createKeyMatcher(settings.denylist) : null;
+  const bans = settings.ban ? new TemporaryBans({ storage, ...settings.ban }) : null;
+
+  return {
+    async check(key) {
+      if (isAllowlisted && isAllowlisted(key)) {
+        return 'allow';
+      }
+      const now = Date.now();
+      if (isDenylisted && isDenylisted(key)) {
+        return { allowed: false, remaining: 0, resetAt: now, blocked: 'denylist' };
+      }
+      const bannedUntil = bans ? await bans.bannedUntil(key) : null;
+      if (bannedUntil === null) {
+        return null;
+      }
+      return {
+        allowed: false,
+        remaining: 0,
+        resetAt: bannedUntil,
+        retryAfter: (bannedUntil - now) / 1000,
+        retryAt: bannedUntil,
+        blocked: 'ban',
+      };
+    },
+
+    async recordDenial(key, result) {
+      const until = bans ? await bans.recordDenial(key) : null;
+      if (until !== null) {
+        // Don't invite a retry that would only hit the ban
+        result.retryAfter = Math.max(result.retryAfter ?? 0, (until - Date.now()) / 1000);
+        result.retryAt = Math.max(result.retryAt ?? 0, until);
+      }
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import {
+  RateLimiter,
+  CompositeRateLimiter,
+  RateLimiterError,
+  type RateLimiterConfig,
+  type RateLimitResult,
+  type RateLimitAlgorithm,
+  type CompositeRateLimiterConfig,
+  type StorageAdapter,
+} from '../index';
+import { createAccessControl, type AccessControl, type AccessSettings } from './access';
+import {
+  headerLimitsFor,
+  rateLimitHeaders,
+  type HeaderLimits,
+  type HeadersFormat,
+} from './headers';
+
+/**
+ * Framework-neutral settings shared by every adapter
+ */
+export interface RateLimitSettings<TRequest> extends AccessSettings {
+  /**
+   * Function to extract the rate limit key from the request
+   * Default: the client IP, as far as the framework knows it
+   */
+  keyGenerator?: (request: TRequest) => string;
+
+  /**
+   * Function to determine if the request should skip rate limiting
+   * Default: no requests are skipped
+   */
+  skip?: (request: TRequest) => boolean;
+
+  /**
+   * Whether to send rate limit headers
+   * Default: true
+   */
+  headers?: boolean;
+
+  /**
+   * Which rate limit headers to send
+   * Default: 'legacy'
+   */
+  headersFormat?: HeadersFormat;
+
+  /**
+   * Tokens charged for the request, or a function computing them
+   * (a non-negative finite number; anything else throws a RateLimiterError)
+   * Default: 1
+   */
+  cost?: number | ((request: TRequest) => number | Promise<number>);
+
+  /**
+   * Header set to 'denied' on requests a shadow mode limit would have denied
+   * (rate limit headers are not sent in shadow mode)
+   * Default: none
+   */
+  shadowHeader?: string;
+}
+
+/**
+ * A limiter together with the configured limits its headers describe
+ */
+export interface LimitTarget {
+  limiter: RateLimitAlgorithm;
+  headerLimits: HeaderLimits;
+  /** Whether the limit only runs in shadow mode */
+  shadow: boolean;
+  /** Storage the limiter was configured with, if any */
+  storage?: StorageAdapter;
+  /** Prefix of the keys charged, to keep limits sharing a storage apart */
+  keyPrefix: string;
+}
+
+/**
+ * Outcome of rate limiting a single request
+ */
+export interface RateLimitOutcome {
+  /** Key the tokens were charged to */
+  key: string;
+  /** Tokens charged upfront */
+  tokens: number;
+  /** Result of consuming the tokens */
+  result: RateLimitResult;
+  /** Headers to send (empty when headers are disabled) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Rate limiting steps shared by every adapter
+ */
+export interface RateLimitCore<TRequest> {
+  /**
+   * Charge the request, or return null if it skips rate limiting
+   */
+  limit(request: TRequest): Promise<RateLimitOutcome | null>;
+
+  /**
+   * Charge or refund the difference between the upfront and final cost
+   * (errors are swallowed - the response has already been sent)
+   */
+  settle(outcome: RateLimitOutcome, finalCost: () => number | Promise<number>): Promise<void>;
+}
+
+/**
+ * Create the limiter for a single limit, or for several limits (`limits`)
+ * @param config - Limiter config
+ * @param keyPrefix - Prefix of the keys charged (default: none)
+ */
+export function createLimitTarget(
+  config: RateLimiterConfig | CompositeRateLimiterConfig,
+  keyPrefix: string = ''
+): LimitTarget {
+  return {
+    limiter: 'limits' in config ? new CompositeRateLimiter(config) : new RateLimiter(config),
+    headerLimits: headerLimitsFor(config),
+    shadow: !('limits' in config) && config.mode === 'shadow',
+    storage: config.storage,
+    keyPrefix,
+  };
+}
+
+/**
+ * JSON body sent when the rate limit is exceeded
+ */
+export function rateLimitedBody(result: RateLimitResult): {
+  error: string;
+  retryAfter?: number;
+} {
+  return {
+    error: 'Too Many Requests',
+    retryAfter: result.retryAfter,
+  };
+}
+
+/**
+ * Headers for a request blocked by a denylist or a ban
+ */
+export function blockedHeaders(result: RateLimitResult): Record<string, string> {
+  return result.retryAfter === undefined
+    ? {}
+    : { 'Retry-After': String(Math.ceil(result.retryAfter)) };
+}
+
+/**
+ * Create the framework-neutral rate limiting steps for an adapter
+ * @param settings - Adapter settings
+ * @param target - Limiter to charge
+ * @param defaultKeyGenerator - Key generator used when the settings have none
+ * @param access - Lists and bans to apply, to share them between cores
+ * (default: built from the settings)
+ */
+export function createRateLimitCore<TRequest>(
+  settings: RateLimitSettings<TRequest>,
+  target: LimitTarget,
+  defaultKeyGenerator: (request: TRequest) => string,
+  access: AccessControl = createAccessControl(settings, target.storage)
+): RateLimitCore<TRequest> {
+  const keyGenerator = settings.keyGenerator ?? defaultKeyGenerator;
+  const skip = settings.skip;
+  const sendHeaders = settings.headers !== false;
+  const headersFormat = settings.headersFormat ?? 'legacy';
+  const cost = settings.cost ?? 1;
+  const shadowHeader = settings.shadowHeader;
+
+  return {
+    async limit(request) {
+      if (skip && skip(request)) {
+        return null;
+      }
+
+      const key = keyGenerator(request);
+      const decision = await access.check(key);
+      if (decision === 'allow') {
+        return null;
+      }
+      if (decision) {
+        // Rejected without charging the limit
+        const headers = sendHeaders ? blockedHeaders(decision) : {};
+        return { key: target.keyPrefix + key, tokens: 0, result: decision, headers };
+      }
+
+      const tokens = typeof cost === 'function' ? await cost(request) : cost;
+      if (typeof tokens !== 'number' || !Number.isFinite(tokens) || tokens < 0) {
+        // NaN would poison the bucket, and a negative cost would refill it
+        throw new RateLimiterError(`Request cost must be a non-negative number, got ${tokens}`);
+      }
+      const result = await target.limiter.consume(target.keyPrefix + key, tokens);
+      if (!result.allowed) {
+        await access.recordDenial(key, result);
+      }
+      // A shadow limit isn't in force, so don't advertise it
+      const headers =
+        sendHeaders && !target.shadow
+          ? rateLimitHeaders(result, target.headerLimits, headersFormat)
+          : {};
+      if (shadowHeader && result.shadowDenied) {
+        headers[shadowHeader] = 'denied';
+      }
+
+      return { key: target.keyPrefix + key, tokens, result, headers };
+    },
+
+    async settle(outcome, finalCost) {
+      try {
+        const difference = (await finalCost()) - outcome.tokens;
+        if (difference > 0) {
+          await target.limiter.penalize(outcome.key, difference);
+        } else if (difference < 0) {
+          await target.limiter.refund(outcome.key, -difference);
+        }
+      } catch {
+        // The response has already been sent - nothing left to report to
+      }
+    },
+  };
+}
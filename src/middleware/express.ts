@@ -1,13 +1,20 @@
 import type { Request, Response, NextFunction } from 'express';
-import { RateLimiter, type RateLimiterConfig, type RateLimitResult } from '../index';
-
-export interface RateLimitMiddlewareOptions extends RateLimiterConfig {
-  /**
-   * Function to extract the rate limit key from the request
-   * Default: uses req.ip
-   */
-  keyGenerator?: (req: Request) => string;
+import {
+  ConcurrencyLimiter,
+  type RateLimiterConfig,
+  type RateLimitResult,
+  type CompositeRateLimiterConfig,
+  type ConcurrencyLimiterOptions,
+} from '../index';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type RateLimitSettings,
+} from './core';
+import { ipKey } from './keys';
 
+interface MiddlewareSettings extends RateLimitSettings<Request> {
   /**
    * Custom handler when rate limit is exceeded
    * Default: sends 429 with JSON error response
@@ -15,24 +22,24 @@ export interface RateLimitMiddlewareOptions extends RateLimiterConfig {
   onRateLimited?: (req: Request, res: Response, result: RateLimitResult) => void;
 
   /**
-   * Function to determine if the request should skip rate limiting
-   * Default: no requests are skipped
-   */
-  skip?: (req: Request) => boolean;
-
-  /**
-   * Whether to send rate limit headers
-   * Default: true
+   * Final cost of the request, computed once the response has finished
+   * (e.g. items returned, or 0 to refund server errors). The difference from
+   * the upfront `cost` is charged as a penalty or refunded.
+   * Default: the upfront cost stands
    */
-  headers?: boolean;
+  responseCost?: (req: Request, res: Response, cost: number) => number | Promise<number>;
 }
 
 /**
- * Default key generator using request IP
+ * Options for a single limit, or for several limits enforced together (`limits`)
  */
-function defaultKeyGenerator(req: Request): string {
-  return req.ip ?? req.socket.remoteAddress ?? 'unknown';
-}
+export type RateLimitMiddlewareOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  MiddlewareSettings;
+
+/**
+ * Default key generator using request IP, with IPv6 clients grouped by /64
+ */
+const defaultKeyGenerator = ipKey();
 
 /**
  * Default rate limit exceeded handler
@@ -42,27 +49,7 @@ function defaultOnRateLimited(
   res: Response,
   result: RateLimitResult
 ): void {
-  res.status(429).json({
-    error: 'Too Many Requests',
-    retryAfter: result.retryAfter,
-  });
-}
-
-/**
- * Set rate limit headers on the response
- */
-function setRateLimitHeaders(
-  res: Response,
-  result: RateLimitResult,
-  capacity: number
-): void {
-  res.set('X-RateLimit-Limit', String(capacity));
-  res.set('X-RateLimit-Remaining', String(result.remaining));
-  res.set('X-RateLimit-Reset', String(Math.floor(result.resetAt / 1000)));
-
-  if (!result.allowed && result.retryAfter !== undefined) {
-    res.set('Retry-After', String(result.retryAfter));
-  }
+  res.status(429).json(rateLimitedBody(result));
 }
 
 /**
@@ -84,38 +71,126 @@ function setRateLimitHeaders(
  * app.get('/api/data', (req, res) => {
  *   res.json({ data: 'hello' });
  * });
+ *
+ * // Weighted endpoints, refunded when the server fails
+ * app.post('/graphql', createRateLimitMiddleware({
+ *   capacity: 1000,
+ *   refillRate: 1000,
+ *   refillInterval: 60000,
+ *   cost: (req) => estimateComplexity(req.body),
+ *   responseCost: (req, res, cost) => (res.statusCode >= 500 ? 0 : cost),
+ * }));
  * ```
  */
 export function createRateLimitMiddleware(
   options: RateLimitMiddlewareOptions
 ): (req: Request, res: Response, next: NextFunction) => Promise<void> {
-  const limiter = new RateLimiter(options);
-  const keyGenerator = options.keyGenerator ?? defaultKeyGenerator;
+  const core = createRateLimitCore(options, createLimitTarget(options), defaultKeyGenerator);
   const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = options.responseCost;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const outcome = await core.limit(req);
+      if (!outcome) {
+        // Skipped
+        next();
+        return;
+      }
+
+      res.set(outcome.headers);
+
+      if (!outcome.result.allowed) {
+        onRateLimited(req, res, outcome.result);
+        return;
+      }
+
+      if (responseCost) {
+        res.once('finish', () => {
+          void core.settle(outcome, () => responseCost(req, res, outcome.tokens));
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export interface ConcurrencyMiddlewareOptions extends ConcurrencyLimiterOptions {
+  /**
+   * Function to extract the concurrency key from the request
+   * Default: the request IP, with IPv6 clients grouped by /64
+   */
+  keyGenerator?: (req: Request) => string;
+
+  /**
+   * Custom handler when too many requests are in flight
+   * Default: sends 429 with JSON error response
+   */
+  onLimited?: (req: Request, res: Response) => void;
+
+  /**
+   * Function to determine if the request should skip concurrency limiting
+   * Default: no requests are skipped
+   */
+  skip?: (req: Request) => boolean;
+}
+
+/**
+ * Default concurrency limit exceeded handler
+ */
+function defaultOnConcurrencyLimited(_req: Request, res: Response): void {
+  res.status(429).json({
+    error: 'Too Many Concurrent Requests',
+  });
+}
+
+/**
+ * Create an Express middleware that caps in-flight requests per key
+ *
+ * The slot is released when the response finishes or the connection closes.
+ *
+ * @example
+ * ```typescript
+ * app.get(
+ *   '/reports',
+ *   createConcurrencyMiddleware({ maxConcurrent: 5, keyGenerator: () => 'reports' }),
+ *   buildReport
+ * );
+ * ```
+ */
+export function createConcurrencyMiddleware(
+  options: ConcurrencyMiddlewareOptions
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  const limiter = new ConcurrencyLimiter(options);
+  const keyGenerator = options.keyGenerator ?? defaultKeyGenerator;
+  const onLimited = options.onLimited ?? defaultOnConcurrencyLimited;
   const skip = options.skip;
-  const sendHeaders = options.headers !== false;
 
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // Check if request should skip rate limiting
     if (skip && skip(req)) {
       next();
       return;
     }
 
     try {
-      const key = keyGenerator(req);
-      const result = await limiter.consume(key);
-
-      // Set rate limit headers
-      if (sendHeaders) {
-        setRateLimitHeaders(res, result, options.capacity);
+      const lease = await limiter.acquire(keyGenerator(req));
+      if (!lease) {
+        onLimited(req, res);
+        return;
       }
 
-      if (result.allowed) {
-        next();
-      } else {
-        onRateLimited(req, res, result);
-      }
+      const release = (): void => {
+        lease.release().catch(() => {
+          // Lease expires on its own if the release fails
+        });
+      };
+      res.once('finish', release);
+      res.once('close', release);
+
+      next();
     } catch (error) {
       next(error);
     }
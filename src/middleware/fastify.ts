@@ -0,0 +1,225 @@
+import type {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  onRequestHookHandler,
+  onResponseHookHandler,
+} from 'fastify';
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+} from '../index';
+import { createAccessControl, type AccessControl, type AccessSettings } from './access';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type LimitTarget,
+  type RateLimitOutcome,
+  type RateLimitSettings,
+} from './core';
+
+interface FastifyRateLimitSettings extends RateLimitSettings<FastifyRequest> {
+  /**
+   * Custom handler when rate limit is exceeded
+   * Default: sends 429 with JSON error response
+   */
+  onRateLimited?: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    result: RateLimitResult
+  ) => void | Promise<void>;
+
+  /**
+   * Final cost of the request, computed once the response has been sent
+   * (e.g. items returned, or 0 to refund server errors). The difference from
+   * the upfront `cost` is charged as a penalty or refunded.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    cost: number
+  ) => number | Promise<number>;
+}
+
+/**
+ * Options for a single limit, or for several limits enforced together (`limits`)
+ */
+export type FastifyRateLimitOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  FastifyRateLimitSettings;
+
+/**
+ * Route settings in `config.rateLimit` (lists and bans are the plugin's)
+ */
+type RouteRateLimitSettings = Omit<FastifyRateLimitSettings, keyof AccessSettings>;
+
+/**
+ * Route overrides in `config.rateLimit`
+ *
+ * Settings alone share the plugin's limits; passing limits too (`capacity` or
+ * `limits`) gives the route its own, counted separately from other routes.
+ * `allowlist`, `denylist` and bans are set on the plugin and apply to every
+ * route, so a client banned on one route is banned on all of them.
+ */
+export type RouteRateLimitOptions =
+  | RouteRateLimitSettings
+  | ((RateLimiterConfig | CompositeRateLimiterConfig) & RouteRateLimitSettings);
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /** Rate limit overrides for the route, or false to disable rate limiting */
+    rateLimit?: RouteRateLimitOptions | false;
+  }
+}
+
+/**
+ * Default key generator using request IP
+ */
+function defaultKeyGenerator(request: FastifyRequest): string {
+  return request.ip;
+}
+
+/**
+ * Default rate limit exceeded handler
+ */
+function defaultOnRateLimited(
+  _request: FastifyRequest,
+  reply: FastifyReply,
+  result: RateLimitResult
+): void {
+  reply.code(429).send(rateLimitedBody(result));
+}
+
+/**
+ * Append a hook to a route's hook option, which may be a single hook or a list
+ */
+function appendHook<THook>(existing: THook | THook[] | undefined, hook: THook): THook[] {
+  if (existing === undefined) {
+    return [hook];
+  }
+  return [...(Array.isArray(existing) ? existing : [existing]), hook];
+}
+
+interface RouteHooks {
+  onRequest: onRequestHookHandler;
+  onResponse?: onResponseHookHandler;
+}
+
+/**
+ * Create the hooks enforcing rate limits on a route
+ */
+function createRouteHooks(
+  settings: FastifyRateLimitSettings,
+  target: LimitTarget,
+  access: AccessControl
+): RouteHooks {
+  const core = createRateLimitCore(settings, target, defaultKeyGenerator, access);
+  const onRateLimited = settings.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = settings.responseCost;
+  const outcomes = new WeakMap<FastifyRequest, RateLimitOutcome>();
+
+  const onRequest: onRequestHookHandler = async (request, reply) => {
+    const outcome = await core.limit(request);
+    if (!outcome) {
+      return;
+    }
+
+    reply.headers(outcome.headers);
+
+    if (!outcome.result.allowed) {
+      await onRateLimited(request, reply, outcome.result);
+      return reply;
+    }
+
+    if (responseCost) {
+      outcomes.set(request, outcome);
+    }
+  };
+
+  if (!responseCost) {
+    return { onRequest };
+  }
+
+  const onResponse: onResponseHookHandler = async (request, reply) => {
+    const outcome = outcomes.get(request);
+    if (outcome) {
+      await core.settle(outcome, () => responseCost(request, reply, outcome.tokens));
+    }
+  };
+
+  return { onRequest, onResponse };
+}
+
+/**
+ * Fastify plugin for rate limiting
+ *
+ * Applies to every route registered after the plugin. Routes can override
+ * settings or limits with `config.rateLimit`, or opt out with `false`.
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { fastifyRateLimit } from 'mini-rate-limiter/fastify';
+ *
+ * const app = Fastify();
+ *
+ * await app.register(fastifyRateLimit, {
+ *   capacity: 100,
+ *   refillRate: 100,
+ *   refillInterval: 60000, // 100 requests per minute
+ * });
+ *
+ * app.get('/health', { config: { rateLimit: false } }, async () => 'ok');
+ * app.post(
+ *   '/export',
+ *   { config: { rateLimit: { capacity: 5, refillRate: 5, refillInterval: 3600000 } } },
+ *   exportHandler
+ * );
+ * ```
+ */
+export const fastifyRateLimit = Object.assign(
+  async function fastifyRateLimit(
+    fastify: FastifyInstance,
+    options: FastifyRateLimitOptions
+  ): Promise<void> {
+    const target = createLimitTarget(options);
+    // One set of lists and bans for every route
+    const access = createAccessControl(options, options.storage);
+
+    fastify.addHook('onRoute', (routeOptions) => {
+      const override = routeOptions.config?.rateLimit;
+      if (override === false) {
+        return;
+      }
+
+      // Route settings fall back to the plugin's
+      const settings: FastifyRateLimitSettings = { ...options, ...override };
+      let hooks: RouteHooks;
+      if (override && ('capacity' in override || 'limits' in override)) {
+        // Own limits, sharing the plugin's storage unless given their own
+        const routeLimits: RateLimiterConfig | CompositeRateLimiterConfig = {
+          storage: options.storage,
+          storageOptions: options.storageOptions,
+          ...override,
+        };
+        // Prefix keys to keep the route's counts apart in shared storage
+        const routeTarget = createLimitTarget(routeLimits, `${routeOptions.url}:`);
+        hooks = createRouteHooks(settings, routeTarget, access);
+      } else {
+        hooks = createRouteHooks(settings, target, access);
+      }
+
+      routeOptions.onRequest = appendHook(routeOptions.onRequest, hooks.onRequest);
+      if (hooks.onResponse) {
+        routeOptions.onResponse = appendHook(routeOptions.onResponse, hooks.onResponse);
+      }
+    });
+  },
+  {
+    // Apply to routes outside the plugin's encapsulation context
+    [Symbol.for('skip-override')]: true,
+    [Symbol.for('fastify.display-name')]: 'mini-rate-limiter',
+  }
+);
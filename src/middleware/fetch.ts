@@ -0,0 +1,160 @@
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+} from '../index';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type RateLimitSettings,
+} from './core';
+import { createIpMatcher } from './ip';
+import { normalizeIp } from './keys';
+
+/**
+ * Fetch API route handler (Next.js route handlers, edge functions, Deno, Bun...)
+ */
+export type FetchHandler<TArgs extends unknown[] = []> = (
+  request: Request,
+  ...args: TArgs
+) => Response | Promise<Response>;
+
+interface FetchRateLimitSettings extends RateLimitSettings<Request> {
+  /**
+   * Addresses or CIDR subnets of proxies between the app and the proxy that
+   * appends the client address to `X-Forwarded-For`, skipped when finding
+   * the client (only used without a `keyGenerator`)
+   * Default: none (the right-most hop is the client)
+   */
+  trustedProxies?: string[];
+
+  /**
+   * Response to send when rate limit is exceeded (rate limit headers are added to it)
+   * Default: 429 with JSON error response
+   */
+  onRateLimited?: (request: Request, result: RateLimitResult) => Response | Promise<Response>;
+
+  /**
+   * Final cost of the request, computed once the handler has returned its
+   * response (e.g. items returned, or 0 to refund server errors). The difference
+   * from the upfront `cost` is charged as a penalty or refunded in the background.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (
+    request: Request,
+    response: Response,
+    cost: number
+  ) => number | Promise<number>;
+}
+
+/**
+ * Options for a single limit, or for several limits enforced together (`limits`)
+ */
+export type FetchRateLimitOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  FetchRateLimitSettings;
+
+/**
+ * Client IP from `X-Forwarded-For`: the right-most hop that isn't a trusted
+ * proxy, with IPv6 clients grouped by /64
+ *
+ * Hops to the left of it were sent by the client and can't be trusted, so
+ * this is only meaningful behind a proxy that appends to the header.
+ * @param headers - Request headers
+ * @param isTrusted - Whether a hop is one of our own proxies (default: none are)
+ */
+export function clientIpFromHeaders(
+  headers: Headers,
+  isTrusted: (ip: string) => boolean = () => false
+): string {
+  const forwardedFor = headers.get('x-forwarded-for');
+  const hops = forwardedFor
+    ? forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean)
+    : [];
+  let client = hops.pop();
+  while (client !== undefined && isTrusted(client) && hops.length > 0) {
+    client = hops.pop();
+  }
+  return client === undefined ? 'unknown' : normalizeIp(client);
+}
+
+/**
+ * Create the default key generator for the given trusted proxies
+ */
+export function forwardedIpKey(trustedProxies: string[] = []): (headers: Headers) => string {
+  const isTrusted = createIpMatcher(trustedProxies);
+  return (headers) => clientIpFromHeaders(headers, isTrusted);
+}
+
+/**
+ * Default rate limit exceeded response
+ */
+function defaultOnRateLimited(_request: Request, result: RateLimitResult): Response {
+  return Response.json(rateLimitedBody(result), { status: 429 });
+}
+
+/**
+ * Copy a response with extra headers (responses from `fetch` have immutable headers)
+ */
+export function withHeaders(response: Response, extra: Record<string, string>): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(extra)) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Wrap a Fetch API handler with rate limiting
+ *
+ * @example
+ * ```typescript
+ * // app/api/data/route.ts (Next.js)
+ * import { withRateLimit } from 'mini-rate-limiter/fetch';
+ *
+ * export const GET = withRateLimit(
+ *   async () => Response.json({ data: 'hello' }),
+ *   {
+ *     capacity: 100,
+ *     refillRate: 100,
+ *     refillInterval: 60000, // 100 requests per minute
+ *     keyGenerator: (request) => request.headers.get('x-api-key') ?? 'anonymous',
+ *   }
+ * );
+ * ```
+ */
+export function withRateLimit<TArgs extends unknown[]>(
+  handler: FetchHandler<TArgs>,
+  options: FetchRateLimitOptions
+): FetchHandler<TArgs> {
+  const clientIp = forwardedIpKey(options.trustedProxies);
+  const core = createRateLimitCore(options, createLimitTarget(options), (request: Request) =>
+    clientIp(request.headers)
+  );
+  const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = options.responseCost;
+
+  return async (request: Request, ...args: TArgs): Promise<Response> => {
+    const outcome = await core.limit(request);
+    if (!outcome) {
+      // Skipped
+      return handler(request, ...args);
+    }
+
+    if (!outcome.result.allowed) {
+      return withHeaders(await onRateLimited(request, outcome.result), outcome.headers);
+    }
+
+    const response = await handler(request, ...args);
+
+    if (responseCost) {
+      void core.settle(outcome, () => responseCost(request, response, outcome.tokens));
+    }
+
+    return withHeaders(response, outcome.headers);
+  };
+}
@@ -0,0 +1,90 @@
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+  CompositeRateLimitResult,
+} from '../index';
+import { windowMsFor } from '../algorithms/factory';
+
+/**
+ * Which rate limit headers to send
+ * - `legacy`: `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset` (epoch seconds)
+ * - `draft-6`: IETF `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset`, `RateLimit-Policy`
+ * - `draft-7`: IETF combined `RateLimit` and `RateLimit-Policy`
+ * - `both`: `legacy` and `draft-7`
+ */
+export type HeadersFormat = 'legacy' | 'draft-6' | 'draft-7' | 'both';
+
+/**
+ * Configured limits needed to describe a result in headers
+ */
+export interface HeaderLimits {
+  /** Capacity reported when the result doesn't carry its own */
+  capacity: number;
+  /** Quota window in seconds of each limit, in definition order */
+  windowSeconds: number[];
+}
+
+/**
+ * Collect the configured limits of a single or composite limiter config
+ */
+export function headerLimitsFor(
+  config: RateLimiterConfig | CompositeRateLimiterConfig
+): HeaderLimits {
+  const definitions = 'limits' in config ? config.limits : [config];
+  return {
+    capacity: definitions[0].capacity,
+    windowSeconds: definitions.map((definition) => Math.ceil(windowMsFor(definition) / 1000)),
+  };
+}
+
+/**
+ * Serialize quota policies as an IETF structured-field list, e.g. `10;w=1, 1000;w=3600`
+ */
+function formatPolicies(capacities: number[], limits: HeaderLimits): string {
+  return capacities
+    .map((capacity, i) => `${capacity};w=${limits.windowSeconds[i]}`)
+    .join(', ');
+}
+
+/**
+ * Build the rate limit headers for a result
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  limits: HeaderLimits,
+  format: HeadersFormat
+): Record<string, string> {
+  // Per-key and composite limits report the capacity that applied
+  const capacity = result.capacity ?? limits.capacity;
+  const capacities = (result as Partial<CompositeRateLimitResult>).limits?.map(
+    (limit) => limit.capacity
+  ) ?? [capacity];
+  // IETF drafts use delta-seconds rather than an absolute time
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  const headers: Record<string, string> = {};
+
+  if (format === 'legacy' || format === 'both') {
+    headers['X-RateLimit-Limit'] = String(capacity);
+    headers['X-RateLimit-Remaining'] = String(result.remaining);
+    headers['X-RateLimit-Reset'] = String(Math.floor(result.resetAt / 1000));
+  }
+  if (format === 'draft-6') {
+    headers['RateLimit-Limit'] = String(capacity);
+    headers['RateLimit-Remaining'] = String(result.remaining);
+    headers['RateLimit-Reset'] = String(resetSeconds);
+    headers['RateLimit-Policy'] = formatPolicies(capacities, limits);
+  }
+  if (format === 'draft-7' || format === 'both') {
+    headers['RateLimit'] =
+      `limit=${capacity}, remaining=${result.remaining}, reset=${resetSeconds}`;
+    headers['RateLimit-Policy'] = formatPolicies(capacities, limits);
+  }
+
+  if (!result.allowed && result.retryAfter !== undefined) {
+    // Retry-After must be whole seconds
+    headers['Retry-After'] = String(Math.ceil(result.retryAfter));
+  }
+
+  return headers;
+}
@@ -0,0 +1,99 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+} from '../index';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type RateLimitSettings,
+} from './core';
+import { forwardedIpKey, withHeaders } from './fetch';
+
+interface HonoRateLimitSettings extends RateLimitSettings<Context> {
+  /**
+   * Addresses or CIDR subnets of proxies between the app and the proxy that
+   * appends the client address to `X-Forwarded-For`, skipped when finding
+   * the client (only used without a `keyGenerator`)
+   * Default: none (the right-most hop is the client)
+   */
+  trustedProxies?: string[];
+
+  /**
+   * Response to send when rate limit is exceeded (rate limit headers are added to it)
+   * Default: 429 with JSON error response
+   */
+  onRateLimited?: (c: Context, result: RateLimitResult) => Response | Promise<Response>;
+
+  /**
+   * Final cost of the request, computed once later handlers have produced the
+   * response (e.g. items returned, or 0 to refund server errors). The difference
+   * from the upfront `cost` is charged as a penalty or refunded in the background.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (c: Context, cost: number) => number | Promise<number>;
+}
+
+/**
+ * Options for a single limit, or for several limits enforced together (`limits`)
+ */
+export type HonoRateLimitOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  HonoRateLimitSettings;
+
+/**
+ * Default rate limit exceeded response
+ */
+function defaultOnRateLimited(c: Context, result: RateLimitResult): Response {
+  return c.json(rateLimitedBody(result), 429);
+}
+
+/**
+ * Create a Hono middleware for rate limiting
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { honoRateLimit } from 'mini-rate-limiter/hono';
+ *
+ * const app = new Hono();
+ *
+ * app.use('/api/*', honoRateLimit({
+ *   capacity: 100,
+ *   refillRate: 100,
+ *   refillInterval: 60000, // 100 requests per minute
+ * }));
+ * ```
+ */
+export function honoRateLimit(options: HonoRateLimitOptions): MiddlewareHandler {
+  const clientIp = forwardedIpKey(options.trustedProxies);
+  const core = createRateLimitCore(options, createLimitTarget(options), (c: Context) =>
+    clientIp(c.req.raw.headers)
+  );
+  const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = options.responseCost;
+
+  return async (c, next) => {
+    const outcome = await core.limit(c);
+    if (!outcome) {
+      // Skipped
+      await next();
+      return;
+    }
+
+    if (!outcome.result.allowed) {
+      return withHeaders(await onRateLimited(c, outcome.result), outcome.headers);
+    }
+
+    for (const [name, value] of Object.entries(outcome.headers)) {
+      c.header(name, value);
+    }
+
+    await next();
+
+    if (responseCost) {
+      void core.settle(outcome, () => responseCost(c, outcome.tokens));
+    }
+  };
+}
@@ -1,4 +1,30 @@
 export {
   createRateLimitMiddleware,
+  createConcurrencyMiddleware,
   type RateLimitMiddlewareOptions,
+  type ConcurrencyMiddlewareOptions,
 } from './express';
+export { createMetricsHandler } from './metrics';
+export {
+  ipKey,
+  headerKey,
+  jwtClaimKey,
+  combineKeys,
+  normalizeIp,
+  type KeyGenerator,
+  type IpKeyOptions,
+  type FallbackKeyOptions,
+  type JwtClaimKeyOptions,
+} from './keys';
+export { createKeyMatcher } from './access';
+export type { HeadersFormat } from './headers';
+export { createRulesMiddleware, type RulesMiddlewareOptions } from './rules';
+export {
+  validateRulesConfig,
+  loadRulesConfig,
+  type RateLimitRule,
+  type RuleMatch,
+  type RuleEvaluation,
+  type RulesConfig,
+  type LoadRulesOptions,
+} from './rules-config';
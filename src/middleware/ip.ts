@@ -0,0 +1,198 @@
+/**
+ * A parsed IP address (IPv4-mapped IPv6 addresses are parsed as IPv4)
+ */
+export interface ParsedIp {
+  version: 4 | 6;
+  /** 4 bytes for IPv4, 16 for IPv6 */
+  bytes: number[];
+}
+
+/**
+ * A subnet, e.g. from `10.0.0.0/8` (a plain address covers just itself)
+ */
+export interface Subnet extends ParsedIp {
+  prefix: number;
+}
+
+function parseIpv4(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+/**
+ * Parse one side of a `::` into 16-bit groups
+ */
+function parseGroups(part: string, allowIpv4: boolean): number[] | null {
+  if (part === '') {
+    return [];
+  }
+  const groups: number[] = [];
+  const fields = part.split(':');
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (allowIpv4 && i === fields.length - 1 && field.includes('.')) {
+      // Embedded IPv4 address, e.g. ::ffff:192.0.2.1
+      const ipv4 = parseIpv4(field);
+      if (!ipv4) {
+        return null;
+      }
+      groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+    } else if (/^[0-9a-f]{1,4}$/i.test(field)) {
+      groups.push(parseInt(field, 16));
+    } else {
+      return null;
+    }
+  }
+  return groups;
+}
+
+function parseIpv6(ip: string): number[] | null {
+  // Drop the zone, e.g. fe80::1%eth0
+  const address = ip.split('%')[0];
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = parseGroups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+  if (!head || !tail) {
+    return null;
+  }
+
+  let groups: number[];
+  if (halves.length === 1) {
+    groups = head;
+  } else {
+    const missing = 8 - head.length - tail.length;
+    if (missing < 1) {
+      return null;
+    }
+    groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  }
+  if (groups.length !== 8) {
+    return null;
+  }
+
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address, or return null if it isn't one
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const ipv4 = parseIpv4(ip);
+  if (ipv4) {
+    return { version: 4, bytes: ipv4 };
+  }
+
+  const ipv6 = ip.includes(':') ? parseIpv6(ip) : null;
+  if (!ipv6) {
+    return null;
+  }
+  const mapped =
+    ipv6.slice(0, 10).every((byte) => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff;
+  return mapped ? { version: 4, bytes: ipv6.slice(12) } : { version: 6, bytes: ipv6 };
+}
+
+/**
+ * Parse a subnet in CIDR notation, or a plain address
+ */
+export function parseSubnet(cidr: string): Subnet | null {
+  const [address, prefixText, ...rest] = cidr.split('/');
+  const ip = parseIp(address);
+  if (!ip || rest.length > 0) {
+    return null;
+  }
+
+  const maxPrefix = ip.bytes.length * 8;
+  if (prefixText === undefined) {
+    return { ...ip, prefix: maxPrefix };
+  }
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > maxPrefix) {
+    return null;
+  }
+  return { ...ip, prefix: Number(prefixText) };
+}
+
+/**
+ * Zero every bit after the first `prefix` bits
+ */
+export function maskBytes(bytes: number[], prefix: number): number[] {
+  return bytes.map((byte, i) => {
+    const bits = Math.min(8, Math.max(0, prefix - i * 8));
+    return byte & ((0xff00 >> bits) & 0xff);
+  });
+}
+
+/**
+ * Whether an address lies in a subnet
+ */
+export function inSubnet(ip: ParsedIp, subnet: Subnet): boolean {
+  if (ip.version !== subnet.version) {
+    return false;
+  }
+  const masked = maskBytes(ip.bytes, subnet.prefix);
+  const network = maskBytes(subnet.bytes, subnet.prefix);
+  return masked.every((byte, i) => byte === network[i]);
+}
+
+/**
+ * Create a function testing whether an address lies in any of the given
+ * addresses or CIDR subnets
+ * @throws Error if an entry is not an address or subnet
+ */
+export function createIpMatcher(entries: string[]): (ip: string) => boolean {
+  const subnets = entries.map((entry) => {
+    const subnet = parseSubnet(entry);
+    if (!subnet) {
+      throw new Error(`Invalid IP address or subnet: "${entry}"`);
+    }
+    return subnet;
+  });
+
+  return (ip) => {
+    const parsed = parseIp(ip);
+    return parsed !== null && subnets.some((subnet) => inSubnet(parsed, subnet));
+  };
+}
+
+/**
+ * Format an address in its canonical text form (IPv6 zero runs compressed)
+ */
+export function formatIp(ip: ParsedIp): string {
+  if (ip.version === 4) {
+    return ip.bytes.join('.');
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1]);
+  }
+
+  // Longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
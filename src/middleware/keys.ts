@@ -0,0 +1,182 @@
+import type { Request } from 'express';
+import { createIpMatcher, formatIp, maskBytes, parseIp } from './ip';
+
+/**
+ * Function extracting the rate limit key from a request
+ */
+export type KeyGenerator = (req: Request) => string;
+
+export interface IpKeyOptions {
+  /**
+   * Number of leading bits IPv6 addresses are grouped by, since a single
+   * client usually controls a whole /64 (128 limits each address on its own)
+   * Default: 64
+   */
+  ipv6Prefix?: number;
+
+  /**
+   * Addresses or CIDR subnets of proxies in front of the app. When set, the
+   * client is the last `X-Forwarded-For` hop not in this list, and Express's
+   * own `trust proxy` setting is ignored.
+   * Default: none (`req.ip` is used as is)
+   */
+  trustedProxies?: string[];
+}
+
+export interface FallbackKeyOptions {
+  /**
+   * Key generator used when the request has no value to key by
+   * Default: `ipKey()`
+   */
+  fallback?: KeyGenerator;
+}
+
+export interface JwtClaimKeyOptions extends FallbackKeyOptions {
+  /**
+   * Claim to key by
+   * Default: 'sub'
+   */
+  claim?: string;
+
+  /**
+   * Header carrying the token, with or without a `Bearer ` scheme
+   * Default: 'authorization'
+   */
+  header?: string;
+}
+
+/**
+ * Group an address by its subnet: IPv4 addresses (including IPv4-mapped
+ * IPv6) are returned as is, IPv6 addresses as `<network>/<prefix>`
+ * Anything that doesn't parse as an address is returned unchanged.
+ * @param ip - Address to normalize
+ * @param ipv6Prefix - Number of leading bits to keep for IPv6 (default: 64)
+ */
+export function normalizeIp(ip: string, ipv6Prefix: number = 64): string {
+  const parsed = parseIp(ip);
+  if (!parsed) {
+    return ip;
+  }
+  if (parsed.version === 4 || ipv6Prefix >= 128) {
+    return formatIp(parsed);
+  }
+  return `${formatIp({ version: 6, bytes: maskBytes(parsed.bytes, ipv6Prefix) })}/${ipv6Prefix}`;
+}
+
+/**
+ * First value of a request header
+ */
+function headerValue(req: Request, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Key by client IP, grouping IPv6 clients by subnet
+ *
+ * @example
+ * ```typescript
+ * createRateLimitMiddleware({
+ *   capacity: 100,
+ *   refillRate: 100,
+ *   refillInterval: 60000,
+ *   keyGenerator: ipKey({ ipv6Prefix: 56, trustedProxies: ['10.0.0.0/8'] }),
+ * });
+ * ```
+ */
+export function ipKey(options: IpKeyOptions = {}): KeyGenerator {
+  const ipv6Prefix = options.ipv6Prefix ?? 64;
+  const isTrusted = options.trustedProxies ? createIpMatcher(options.trustedProxies) : null;
+
+  return (req) => {
+    const remoteAddress = req.socket.remoteAddress;
+    if (!isTrusted) {
+      return normalizeIp(req.ip ?? remoteAddress ?? 'unknown', ipv6Prefix);
+    }
+
+    // Walk back from the proxy that connected to us until an untrusted hop
+    const forwardedFor = headerValue(req, 'x-forwarded-for');
+    const hops = forwardedFor
+      ? forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean)
+      : [];
+    let client = remoteAddress ?? 'unknown';
+    while (isTrusted(client) && hops.length > 0) {
+      client = hops.pop()!;
+    }
+    return normalizeIp(client, ipv6Prefix);
+  };
+}
+
+/**
+ * Key by a request header, e.g. an API key
+ *
+ * Keys are prefixed with the header name, so a header value can never
+ * collide with another client's IP key.
+ * @param name - Header to key by (default: 'x-api-key')
+ */
+export function headerKey(
+  name: string = 'x-api-key',
+  options: FallbackKeyOptions = {}
+): KeyGenerator {
+  const fallback = options.fallback ?? ipKey();
+  const header = name.toLowerCase();
+
+  return (req) => {
+    const value = headerValue(req, header)?.trim();
+    return value ? `${header}:${value}` : fallback(req);
+  };
+}
+
+/**
+ * Decode a JWT's payload without verifying its signature
+ */
+function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    const payload: unknown = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return typeof payload === 'object' && payload !== null
+      ? (payload as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Key by a claim of a JWT bearer token (`sub` by default)
+ *
+ * The token is NOT verified: anyone can mint tokens with arbitrary claims, so
+ * only use this behind a gateway that verifies them, or combine it with an
+ * IP key. Keys are prefixed with the claim name.
+ */
+export function jwtClaimKey(options: JwtClaimKeyOptions = {}): KeyGenerator {
+  const claim = options.claim ?? 'sub';
+  const header = (options.header ?? 'authorization').toLowerCase();
+  const fallback = options.fallback ?? ipKey();
+
+  return (req) => {
+    const token = headerValue(req, header)
+      ?.trim()
+      .replace(/^Bearer\s+/i, '');
+    const value = token ? decodeJwtPayload(token)?.[claim] : undefined;
+    return typeof value === 'string' || typeof value === 'number'
+      ? `${claim}:${value}`
+      : fallback(req);
+  };
+}
+
+/**
+ * Join several keys into one, e.g. to limit each user per route
+ *
+ * @example
+ * ```typescript
+ * keyGenerator: combineKeys((req) => req.path, jwtClaimKey())
+ * // => '/search|sub:user-123'
+ * ```
+ */
+export function combineKeys(...generators: KeyGenerator[]): KeyGenerator {
+  return (req) => generators.map((generator) => generator(req)).join('|');
+}
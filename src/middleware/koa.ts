@@ -0,0 +1,109 @@
+import type { Context, Middleware } from 'koa';
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+} from '../index';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type RateLimitSettings,
+} from './core';
+
+interface KoaRateLimitSettings extends RateLimitSettings<Context> {
+  /**
+   * Custom handler when rate limit is exceeded
+   * Default: sets a 429 status with JSON error body (or throws, see `throwOnLimit`)
+   */
+  onRateLimited?: (ctx: Context, result: RateLimitResult) => void | Promise<void>;
+
+  /**
+   * Throw an HTTP 429 error with `ctx.throw` instead of setting the response,
+   * for apps that render errors centrally. The error carries `retryAfter` and
+   * the rate limit headers.
+   * Default: false
+   */
+  throwOnLimit?: boolean;
+
+  /**
+   * Final cost of the request, computed once downstream middleware has finished
+   * (e.g. items returned, or 0 to refund server errors). The difference from
+   * the upfront `cost` is charged as a penalty or refunded in the background.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (ctx: Context, cost: number) => number | Promise<number>;
+}
+
+/**
+ * Options for a single limit, or for several limits enforced together (`limits`)
+ */
+export type KoaRateLimitOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  KoaRateLimitSettings;
+
+/**
+ * Default key generator using request IP
+ */
+function defaultKeyGenerator(ctx: Context): string {
+  return ctx.ip;
+}
+
+/**
+ * Default rate limit exceeded handler
+ */
+function defaultOnRateLimited(ctx: Context, result: RateLimitResult): void {
+  ctx.status = 429;
+  ctx.body = rateLimitedBody(result);
+}
+
+/**
+ * Create a Koa middleware for rate limiting
+ *
+ * @example
+ * ```typescript
+ * import Koa from 'koa';
+ * import { koaRateLimit } from 'mini-rate-limiter/koa';
+ *
+ * const app = new Koa();
+ *
+ * app.use(koaRateLimit({
+ *   capacity: 100,
+ *   refillRate: 100,
+ *   refillInterval: 60000, // 100 requests per minute
+ * }));
+ * ```
+ */
+export function koaRateLimit(options: KoaRateLimitOptions): Middleware {
+  const core = createRateLimitCore(options, createLimitTarget(options), defaultKeyGenerator);
+  const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = options.responseCost;
+
+  return async (ctx, next) => {
+    const outcome = await core.limit(ctx);
+    if (!outcome) {
+      // Skipped
+      await next();
+      return;
+    }
+
+    ctx.set(outcome.headers);
+
+    if (!outcome.result.allowed) {
+      if (options.throwOnLimit) {
+        // Koa's error handler drops headers set on ctx, so pass them along
+        ctx.throw(429, 'Too Many Requests', {
+          retryAfter: outcome.result.retryAfter,
+          headers: outcome.headers,
+        });
+      }
+      await onRateLimited(ctx, outcome.result);
+      return;
+    }
+
+    await next();
+
+    if (responseCost) {
+      void core.settle(outcome, () => responseCost(ctx, outcome.tokens));
+    }
+  };
+}
@@ -0,0 +1,22 @@
+import type { Request, Response } from 'express';
+import type { MetricsCollector } from '../metrics/collector';
+
+/**
+ * Create an Express handler serving collected metrics to Prometheus
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsCollector();
+ *
+ * app.use(createRateLimitMiddleware({ name: 'api', ...limits, hooks: metrics.hooks }));
+ * app.get('/metrics', createMetricsHandler(metrics));
+ * ```
+ */
+export function createMetricsHandler(
+  collector: MetricsCollector
+): (req: Request, res: Response) => void {
+  return (_req: Request, res: Response): void => {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(collector.toPrometheus());
+  };
+}
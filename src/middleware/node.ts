@@ -0,0 +1,148 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  RateLimiterConfig,
+  RateLimitResult,
+  CompositeRateLimiterConfig,
+} from '../index';
+import {
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type RateLimitSettings,
+} from './core';
+
+/**
+ * Request listener for `http.createServer` (or `https`)
+ */
+export type NodeHandler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+interface NodeRateLimitSettings extends RateLimitSettings<IncomingMessage> {
+  /**
+   * Custom handler when rate limit is exceeded (rate limit headers are already set)
+   * Default: sends 429 with JSON error response
+   */
+  onRateLimited?: (
+    req: IncomingMessage,
+    res: ServerResponse,
+    result: RateLimitResult
+  ) => void | Promise<void>;
+
+  /**
+   * Handler for errors thrown while rate limiting (e.g. storage unavailable)
+   * or by the wrapped handler
+   * Default: sends 500 unless a response has already started
+   */
+  onError?: (error: unknown, req: IncomingMessage, res: ServerResponse) => void;
+
+  /**
+   * Final cost of the request, computed once the response has finished
+   * (e.g. items returned, or 0 to refund server errors). The difference from
+   * the upfront `cost` is charged as a penalty or refunded.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (
+    req: IncomingMessage,
+    res: ServerResponse,
+    cost: number
+  ) => number | Promise<number>;
+}
+
+/**
+ * Options for a single limit, or for several limits enforced together (`limits`)
+ */
+export type NodeRateLimitOptions = (RateLimiterConfig | CompositeRateLimiterConfig) &
+  NodeRateLimitSettings;
+
+/**
+ * Default key generator using the socket's remote address
+ */
+function defaultKeyGenerator(req: IncomingMessage): string {
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Default rate limit exceeded handler
+ */
+function defaultOnRateLimited(
+  _req: IncomingMessage,
+  res: ServerResponse,
+  result: RateLimitResult
+): void {
+  res.statusCode = 429;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(rateLimitedBody(result)));
+}
+
+/**
+ * Default error handler
+ */
+function defaultOnError(_error: unknown, _req: IncomingMessage, res: ServerResponse): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.statusCode = 500;
+  res.end();
+}
+
+/**
+ * Wrap a `node:http` request listener with rate limiting
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { withNodeRateLimit } from 'mini-rate-limiter/node';
+ *
+ * const server = createServer(
+ *   withNodeRateLimit(
+ *     (req, res) => {
+ *       res.end('ok');
+ *     },
+ *     {
+ *       capacity: 100,
+ *       refillRate: 100,
+ *       refillInterval: 60000, // 100 requests per minute
+ *     }
+ *   )
+ * );
+ * ```
+ */
+export function withNodeRateLimit(
+  handler: NodeHandler,
+  options: NodeRateLimitOptions
+): NodeHandler {
+  const core = createRateLimitCore(options, createLimitTarget(options), defaultKeyGenerator);
+  const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const onError = options.onError ?? defaultOnError;
+  const responseCost = options.responseCost;
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      const outcome = await core.limit(req);
+      if (!outcome) {
+        // Skipped
+        await handler(req, res);
+        return;
+      }
+
+      for (const [name, value] of Object.entries(outcome.headers)) {
+        res.setHeader(name, value);
+      }
+
+      if (!outcome.result.allowed) {
+        await onRateLimited(req, res, outcome.result);
+        return;
+      }
+
+      if (responseCost) {
+        res.once('finish', () => {
+          void core.settle(outcome, () => responseCost(req, res, outcome.tokens));
+        });
+      }
+
+      await handler(req, res);
+    } catch (error) {
+      onError(error, req, res);
+    }
+  };
+}
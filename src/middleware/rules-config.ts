@@ -0,0 +1,314 @@
+import { readFile } from 'node:fs/promises';
+import type { Request } from 'express';
+import { RulesConfigError } from '../errors';
+import type { RateLimiterConfig, CompositeRateLimiterConfig } from '../index';
+import { combineKeys, headerKey, ipKey, jwtClaimKey, type KeyGenerator } from './keys';
+
+/**
+ * Conditions a request must all meet for a rule to apply
+ */
+export interface RuleMatch {
+  /** HTTP method(s), case-insensitive */
+  method?: string | string[];
+  /**
+   * Path pattern(s): `*` matches within a path segment, `**` across segments
+   * (e.g. '/api/*\/export', '/admin/**'), or regular expressions
+   */
+  path?: string | RegExp | Array<string | RegExp>;
+  /** Header values to equal, or `true` for headers that must be present */
+  headers?: Record<string, string | true>;
+  /** Custom predicate (code only) */
+  when?: (req: Request) => boolean;
+}
+
+/**
+ * A rule: which requests it applies to, and the limits, key and cost for them
+ */
+export type RateLimitRule = (RateLimiterConfig | CompositeRateLimiterConfig) & {
+  /** Unique name of the rule (also prefixes its keys in storage) */
+  name: string;
+  /** Requests the rule applies to (default: every request) */
+  match?: RuleMatch;
+  /**
+   * Key generator, or a key spec joining parts with '+': 'ip', 'path',
+   * 'method', 'header:<name>', 'jwt' or 'jwt:<claim>' (e.g. 'path+jwt:sub')
+   * Default: the middleware's `keyGenerator`
+   */
+  key?: string | KeyGenerator;
+  /** Tokens charged per request, or a function computing them (default: 1) */
+  cost?: number | ((req: Request) => number | Promise<number>);
+};
+
+/**
+ * How rules are applied
+ * - `first-match`: only the first matching rule
+ * - `all-match`: every matching rule; a request must pass all of them
+ */
+export type RuleEvaluation = 'first-match' | 'all-match';
+
+/**
+ * Rules as loaded from a config file
+ */
+export interface RulesConfig {
+  /** How rules are applied (default: 'first-match') */
+  evaluation?: RuleEvaluation;
+  rules: RateLimitRule[];
+}
+
+export interface LoadRulesOptions {
+  /**
+   * Parser for YAML files, e.g. `parse` from the `yaml` package
+   * (JSON is parsed natively)
+   */
+  parse?: (text: string) => unknown;
+}
+
+const ALGORITHMS = [
+  'token-bucket',
+  'sliding-window-log',
+  'sliding-window-counter',
+  'fixed-window',
+  'gcra',
+];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Build a key generator from a key spec, e.g. 'path+jwt:sub'
+ * @throws Error naming the first unknown part
+ */
+export function keyFromSpec(spec: string): KeyGenerator {
+  const generators = spec.split('+').map((part): KeyGenerator => {
+    const [kind, ...rest] = part.trim().split(':');
+    const argument = rest.join(':');
+    switch (kind) {
+      case 'ip':
+        return ipKey();
+      case 'path':
+        return (req) => req.path;
+      case 'method':
+        return (req) => req.method;
+      case 'header':
+        if (argument) {
+          return headerKey(argument);
+        }
+        break;
+      case 'jwt':
+        return jwtClaimKey(argument ? { claim: argument } : {});
+    }
+    throw new Error(`unknown key part "${part}"`);
+  });
+  return generators.length === 1 ? generators[0] : combineKeys(...generators);
+}
+
+/**
+ * Check the options of one algorithm, adding problems to `issues`
+ */
+function checkAlgorithm(limit: Fields, path: string, issues: string[]): void {
+  const algorithm = limit.algorithm ?? 'token-bucket';
+  if (typeof algorithm !== 'string' || !ALGORITHMS.includes(algorithm)) {
+    issues.push(`${path}.algorithm must be one of ${ALGORITHMS.join(', ')}`);
+    return;
+  }
+
+  if (!isPositiveNumber(limit.capacity)) {
+    issues.push(`${path}.capacity must be a positive number`);
+  }
+  if (algorithm === 'token-bucket' || algorithm === 'gcra') {
+    for (const field of ['refillRate', 'refillInterval']) {
+      if (!isPositiveNumber(limit[field])) {
+        issues.push(`${path}.${field} must be a positive number`);
+      }
+    }
+    if (
+      limit.refillMode !== undefined &&
+      limit.refillMode !== 'interval' &&
+      limit.refillMode !== 'continuous'
+    ) {
+      issues.push(`${path}.refillMode must be 'interval' or 'continuous'`);
+    }
+  } else if (!isPositiveNumber(limit.windowMs)) {
+    issues.push(`${path}.windowMs must be a positive number`);
+  }
+  if (
+    algorithm === 'fixed-window' &&
+    limit.utcOffsetMinutes !== undefined &&
+    typeof limit.utcOffsetMinutes !== 'number'
+  ) {
+    issues.push(`${path}.utcOffsetMinutes must be a number`);
+  }
+}
+
+/**
+ * Check a rule's `match`, adding problems to `issues`
+ */
+function checkMatch(match: unknown, path: string, issues: string[]): void {
+  if (!isObject(match)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  const methods = match.method === undefined ? [] : [match.method].flat();
+  if (!methods.every((method) => typeof method === 'string')) {
+    issues.push(`${path}.method must be a string or an array of strings`);
+  }
+
+  const paths = match.path === undefined ? [] : [match.path].flat();
+  if (!paths.every((pattern) => typeof pattern === 'string' || pattern instanceof RegExp)) {
+    issues.push(`${path}.path must be a pattern, a RegExp or an array of them`);
+  }
+
+  if (match.headers !== undefined) {
+    if (
+      !isObject(match.headers) ||
+      !Object.values(match.headers).every((value) => typeof value === 'string' || value === true)
+    ) {
+      issues.push(`${path}.headers must map header names to strings or true`);
+    }
+  }
+
+  if (match.when !== undefined && typeof match.when !== 'function') {
+    issues.push(`${path}.when must be a function`);
+  }
+}
+
+/**
+ * Check one rule, adding problems to `issues`
+ */
+function checkRule(rule: unknown, path: string, issues: string[]): void {
+  if (!isObject(rule)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+
+  if (typeof rule.name !== 'string' || rule.name === '') {
+    issues.push(`${path}.name must be a non-empty string`);
+  }
+  if (rule.match !== undefined) {
+    checkMatch(rule.match, `${path}.match`, issues);
+  }
+
+  if (typeof rule.key === 'string') {
+    try {
+      keyFromSpec(rule.key);
+    } catch (error) {
+      issues.push(`${path}.key has an ${(error as Error).message}`);
+    }
+  } else if (rule.key !== undefined && typeof rule.key !== 'function') {
+    issues.push(`${path}.key must be a key spec or a function`);
+  }
+
+  if (
+    rule.cost !== undefined &&
+    typeof rule.cost !== 'function' &&
+    !(typeof rule.cost === 'number' && Number.isFinite(rule.cost) && rule.cost >= 0)
+  ) {
+    issues.push(`${path}.cost must be a non-negative number or a function`);
+  }
+
+  if (rule.mode !== undefined && rule.mode !== 'enforce' && rule.mode !== 'shadow') {
+    issues.push(`${path}.mode must be 'enforce' or 'shadow'`);
+  }
+
+  if (rule.limits === undefined) {
+    checkAlgorithm(rule, path, issues);
+  } else if (!Array.isArray(rule.limits) || rule.limits.length === 0) {
+    issues.push(`${path}.limits must be a non-empty array`);
+  } else {
+    rule.limits.forEach((limit: unknown, i) => {
+      const limitPath = `${path}.limits[${i}]`;
+      if (!isObject(limit)) {
+        issues.push(`${limitPath} must be an object`);
+        return;
+      }
+      if (typeof limit.name !== 'string' || limit.name === '') {
+        issues.push(`${limitPath}.name must be a non-empty string`);
+      }
+      checkAlgorithm(limit, limitPath, issues);
+    });
+  }
+}
+
+/**
+ * Check rules loaded from a file (or written in code) before using them
+ * @param config - Parsed config: `{ evaluation?, rules }`
+ * @param source - Where the config came from, for the error message
+ * @throws RulesConfigError listing every problem found
+ */
+export function validateRulesConfig(config: unknown, source?: string): RulesConfig {
+  const issues: string[] = [];
+
+  if (!isObject(config)) {
+    throw new RulesConfigError(['config must be an object with a "rules" array'], source);
+  }
+  if (
+    config.evaluation !== undefined &&
+    config.evaluation !== 'first-match' &&
+    config.evaluation !== 'all-match'
+  ) {
+    issues.push(`evaluation must be 'first-match' or 'all-match'`);
+  }
+
+  if (!Array.isArray(config.rules) || config.rules.length === 0) {
+    issues.push('rules must be a non-empty array');
+  } else {
+    const names = new Set<string>();
+    config.rules.forEach((rule: unknown, i) => {
+      checkRule(rule, `rules[${i}]`, issues);
+      if (isObject(rule) && typeof rule.name === 'string') {
+        if (names.has(rule.name)) {
+          issues.push(`rules[${i}].name "${rule.name}" is used by an earlier rule`);
+        }
+        names.add(rule.name);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new RulesConfigError(issues, source);
+  }
+  return config as unknown as RulesConfig;
+}
+
+/**
+ * Load and validate rules from a JSON or YAML file
+ *
+ * @example
+ * ```typescript
+ * import { parse } from 'yaml';
+ *
+ * const rules = await loadRulesConfig('./rate-limits.yaml', { parse });
+ * app.use(createRulesMiddleware({ ...rules, storage }));
+ * ```
+ * @throws RulesConfigError if the file is not valid
+ */
+export async function loadRulesConfig(
+  file: string,
+  options: LoadRulesOptions = {}
+): Promise<RulesConfig> {
+  const text = await readFile(file, 'utf8');
+  const yaml = /\.ya?ml$/i.test(file);
+
+  let parsed: unknown;
+  if (yaml && !options.parse) {
+    throw new RulesConfigError(
+      ['YAML files need a `parse` function, e.g. from the yaml package'],
+      file
+    );
+  }
+  try {
+    parsed = yaml ? options.parse!(text) : JSON.parse(text);
+  } catch (error) {
+    throw new RulesConfigError([`could not be parsed: ${(error as Error).message}`], file);
+  }
+
+  return validateRulesConfig(parsed, file);
+}
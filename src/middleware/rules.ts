@@ -0,0 +1,289 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { RateLimitResult, StorageAdapter } from '../index';
+import { createAccessControl } from './access';
+import {
+  blockedHeaders,
+  createLimitTarget,
+  createRateLimitCore,
+  rateLimitedBody,
+  type LimitTarget,
+  type RateLimitCore,
+  type RateLimitOutcome,
+  type RateLimitSettings,
+} from './core';
+import { ipKey, type KeyGenerator } from './keys';
+import {
+  keyFromSpec,
+  validateRulesConfig,
+  type RateLimitRule,
+  type RuleMatch,
+  type RulesConfig,
+} from './rules-config';
+
+export interface RulesMiddlewareOptions
+  extends RulesConfig,
+    Omit<RateLimitSettings<Request>, 'cost'> {
+  /**
+   * Storage shared by every rule without its own `storage`
+   * (rule keys are prefixed with the rule name)
+   * Default: a MemoryStorage per rule
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Custom handler when a rule's limit is exceeded, or the client is
+   * denylisted or banned (`rule` is then null and `result.blocked` is set)
+   * Default: sends 429 with JSON error response
+   */
+  onRateLimited?: (
+    req: Request,
+    res: Response,
+    result: RateLimitResult,
+    rule: RateLimitRule | null
+  ) => void;
+
+  /**
+   * Final cost of the request for a rule, computed once the response has
+   * finished. The difference from the rule's upfront cost is charged as a
+   * penalty or refunded.
+   * Default: the upfront cost stands
+   */
+  responseCost?: (
+    req: Request,
+    res: Response,
+    cost: number,
+    rule: RateLimitRule
+  ) => number | Promise<number>;
+}
+
+/**
+ * A rule ready to evaluate
+ */
+interface CompiledRule {
+  rule: RateLimitRule;
+  matches: (req: Request) => boolean;
+  target: LimitTarget;
+  core: RateLimitCore<Request>;
+}
+
+/**
+ * A rule's charge for the current request
+ */
+interface RuleOutcome {
+  compiled: CompiledRule;
+  outcome: RateLimitOutcome;
+}
+
+/**
+ * Compile a path pattern: `*` matches within a segment, `**` across segments
+ */
+function compilePath(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*')
+    )
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build the predicate of a rule's `match` (every condition must hold)
+ */
+function compileMatch(match: RuleMatch = {}): (req: Request) => boolean {
+  const methods = match.method
+    ? [match.method].flat().map((method) => method.toUpperCase())
+    : null;
+  const paths = match.path ? [match.path].flat().map(compilePath) : null;
+  const headers = Object.entries(match.headers ?? {}).map(
+    ([name, value]) => [name.toLowerCase(), value] as const
+  );
+  const when = match.when;
+
+  return (req) => {
+    if (methods && !methods.includes(req.method.toUpperCase())) {
+      return false;
+    }
+    if (paths && !paths.some((path) => path.test(req.path))) {
+      return false;
+    }
+    for (const [name, expected] of headers) {
+      const header = req.headers[name];
+      const value = Array.isArray(header) ? header[0] : header;
+      if (value === undefined || (expected !== true && value !== expected)) {
+        return false;
+      }
+    }
+    return !when || when(req);
+  };
+}
+
+/**
+ * Default rate limit exceeded handler
+ */
+function defaultOnRateLimited(_req: Request, res: Response, result: RateLimitResult): void {
+  res.status(429).json(rateLimitedBody(result));
+}
+
+/**
+ * Create an Express middleware applying different limits to different
+ * requests, from an ordered list of rules
+ *
+ * Rules are validated upfront, so a bad config fails at startup with a
+ * RulesConfigError rather than on the first request. Requests matching no
+ * rule are not limited.
+ *
+ * `allowlist`, `denylist` and bans are checked once per request, before any
+ * rule, against the `keyGenerator` key (the client IP by default). A denial
+ * by any rule counts towards a ban.
+ *
+ * With `all-match` evaluation, a request denied by one rule is refunded by
+ * the rules that allowed it before.
+ *
+ * @example
+ * ```typescript
+ * app.use(createRulesMiddleware({
+ *   evaluation: 'first-match',
+ *   storage,
+ *   rules: [
+ *     {
+ *       name: 'login',
+ *       match: { method: 'POST', path: '/auth/login' },
+ *       capacity: 5,
+ *       windowMs: 60000,
+ *       algorithm: 'sliding-window-counter',
+ *     },
+ *     {
+ *       name: 'exports',
+ *       match: { path: '/api/**\/export' },
+ *       key: 'jwt:sub',
+ *       cost: 10,
+ *       capacity: 100,
+ *       refillRate: 100,
+ *       refillInterval: 3600000,
+ *     },
+ *     { name: 'default', capacity: 100, refillRate: 100, refillInterval: 60000 },
+ *   ],
+ * }));
+ * ```
+ * @throws RulesConfigError if the rules are invalid
+ */
+export function createRulesMiddleware(
+  options: RulesMiddlewareOptions
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  const config = validateRulesConfig(options);
+  const allMatch = config.evaluation === 'all-match';
+  const defaultKeyGenerator = options.keyGenerator ?? ipKey();
+  const onRateLimited = options.onRateLimited ?? defaultOnRateLimited;
+  const responseCost = options.responseCost;
+  const skip = options.skip;
+  const sendHeaders = options.headers !== false;
+  const access = createAccessControl(options, options.storage);
+
+  const rules = config.rules.map((rule): CompiledRule => {
+    const key: KeyGenerator =
+      typeof rule.key === 'string' ? keyFromSpec(rule.key) : (rule.key ?? defaultKeyGenerator);
+    // The rule name also names the limiter in hooks and metrics
+    const target = createLimitTarget(
+      { ...rule, storage: rule.storage ?? options.storage },
+      `${rule.name}:`
+    );
+    const core = createRateLimitCore(
+      {
+        keyGenerator: key,
+        headers: options.headers,
+        headersFormat: options.headersFormat,
+        shadowHeader: options.shadowHeader,
+        cost: rule.cost,
+      },
+      target,
+      key
+    );
+    return { rule, matches: compileMatch(rule.match), target, core };
+  });
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (skip && skip(req)) {
+        next();
+        return;
+      }
+
+      // Lists and bans apply whether or not a rule matches
+      const clientKey = defaultKeyGenerator(req);
+      const decision = await access.check(clientKey);
+      if (decision === 'allow') {
+        next();
+        return;
+      }
+      if (decision) {
+        if (sendHeaders) {
+          res.set(blockedHeaders(decision));
+        }
+        onRateLimited(req, res, decision, null);
+        return;
+      }
+
+      const charged: RuleOutcome[] = [];
+      for (const compiled of rules) {
+        if (!compiled.matches(req)) {
+          continue;
+        }
+
+        // Never null, as the rules have no `skip`
+        const outcome = (await compiled.core.limit(req))!;
+        if (!outcome.result.allowed) {
+          // Give back what the rules before this one charged
+          await Promise.all(
+            charged.map((earlier) => earlier.compiled.core.settle(earlier.outcome, () => 0))
+          );
+          await access.recordDenial(clientKey, outcome.result);
+          if (outcome.headers['Retry-After'] !== undefined) {
+            // Cover a ban the denial may have started
+            Object.assign(outcome.headers, blockedHeaders(outcome.result));
+          }
+          res.set(outcome.headers);
+          onRateLimited(req, res, outcome.result, compiled.rule);
+          return;
+        }
+
+        charged.push({ compiled, outcome });
+        if (!allMatch) {
+          break;
+        }
+      }
+
+      // Advertise the enforced rule closest to its limit
+      const enforced = charged.filter((charge) => !charge.compiled.target.shadow);
+      const tightest = enforced.reduce<RuleOutcome | undefined>(
+        (lowest, charge) =>
+          !lowest || charge.outcome.result.remaining < lowest.outcome.result.remaining
+            ? charge
+            : lowest,
+        undefined
+      );
+      const headers = charged.map((charge) => charge.outcome.headers);
+      res.set(Object.assign({}, ...headers, tightest?.outcome.headers));
+
+      if (responseCost && charged.length > 0) {
+        res.once('finish', () => {
+          for (const { compiled, outcome } of charged) {
+            void compiled.core.settle(outcome, () =>
+              responseCost(req, res, outcome.tokens, compiled.rule)
+            );
+          }
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
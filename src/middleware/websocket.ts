@@ -0,0 +1,222 @@
+import { randomUUID } from 'node:crypto';
+import {
+  RateLimiter,
+  QueueFullError,
+  QueueTimeoutError,
+  type RateLimiterConfig,
+  type RateLimitResult,
+} from '../index';
+
+/**
+ * The parts of a WebSocket (`ws`, or the browser-style API) the limiter uses
+ */
+export interface MessageSocket {
+  /** 1 while open; messages for sockets in any other state are discarded */
+  readonly readyState?: number;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * What to do with a message that exceeds the limit
+ * - `drop`: discard it and keep the connection
+ * - `delay`: hold it (and every later message) until the limit allows it
+ * - `close`: close the connection with `closeCode` and `closeReason`
+ */
+export type MessageLimitAction = 'drop' | 'delay' | 'close';
+
+interface MessageLimiterSettings<TSocket extends MessageSocket> {
+  /**
+   * What to do with messages over the limit
+   * Default: 'drop'
+   */
+  action?: MessageLimitAction;
+
+  /**
+   * Function to extract the rate limit key from the socket, e.g. to share a
+   * limit between all connections of a user
+   * Default: a random key per connection
+   */
+  keyGenerator?: (socket: TSocket) => string;
+
+  /**
+   * Tokens charged for a message (the handler's first argument), or a function
+   * computing them, e.g. from its size
+   * Default: 1
+   */
+  cost?: number | ((message: unknown) => number);
+
+  /**
+   * Close code used by the `close` action
+   * Default: 1008 (policy violation)
+   */
+  closeCode?: number;
+
+  /**
+   * Close reason used by the `close` action
+   * Default: 'Rate limit exceeded'
+   */
+  closeReason?: string;
+
+  /**
+   * Called for each message over the limit, before the action is taken.
+   * `result` is undefined for delayed messages that could not wait
+   * (`queue.maxQueueLength` or `queue.maxWaitMs` exceeded), which are dropped.
+   */
+  onLimited?: (socket: TSocket, message: unknown, result?: RateLimitResult) => void;
+
+  /**
+   * Handler for errors thrown while rate limiting (e.g. storage unavailable)
+   * or by the wrapped handler
+   * Default: closes the connection with 1011 (internal error)
+   */
+  onError?: (error: unknown, socket: TSocket) => void;
+}
+
+/**
+ * Options for a per-connection message limit
+ *
+ * With the `delay` action, `queue.maxQueueLength` caps the messages held per
+ * connection and `queue.maxWaitMs` how long each may be held.
+ */
+export type MessageLimiterOptions<TSocket extends MessageSocket = MessageSocket> =
+  RateLimiterConfig & MessageLimiterSettings<TSocket>;
+
+export interface MessageLimiter<TSocket extends MessageSocket = MessageSocket> {
+  /**
+   * Wrap a socket's message handler so each message is rate limited
+   * (messages reach the handler in the order they arrived)
+   */
+  wrap<TArgs extends unknown[]>(
+    socket: TSocket,
+    handler: (...args: TArgs) => void | Promise<void>
+  ): (...args: TArgs) => void;
+
+  /**
+   * Clean up the underlying limiter
+   */
+  destroy(): void;
+}
+
+const OPEN = 1;
+
+/**
+ * Default error handler
+ */
+function defaultOnError(_error: unknown, socket: MessageSocket): void {
+  socket.close(1011, 'Internal error');
+}
+
+/**
+ * Create a limiter for the messages of WebSocket-style connections
+ *
+ * @example
+ * ```typescript
+ * import { WebSocketServer } from 'ws';
+ * import { createMessageLimiter } from 'mini-rate-limiter/node';
+ *
+ * const messages = createMessageLimiter({
+ *   capacity: 20,
+ *   refillRate: 5,
+ *   refillInterval: 1000, // 5 messages per second, bursts of 20
+ *   action: 'close',
+ * });
+ *
+ * const wss = new WebSocketServer({ port: 8080 });
+ * wss.on('connection', (socket) => {
+ *   socket.on('message', messages.wrap(socket, (data) => broadcast(data)));
+ * });
+ * ```
+ */
+export function createMessageLimiter<TSocket extends MessageSocket = MessageSocket>(
+  options: MessageLimiterOptions<TSocket>
+): MessageLimiter<TSocket> {
+  const limiter = new RateLimiter(options);
+  const action = options.action ?? 'drop';
+  const cost = options.cost ?? 1;
+  const closeCode = options.closeCode ?? 1008;
+  const closeReason = options.closeReason ?? 'Rate limit exceeded';
+  const maxQueued = options.queue?.maxQueueLength ?? Infinity;
+  const maxWaitMs = options.queue?.maxWaitMs;
+  const onLimited = options.onLimited;
+  const onError = options.onError ?? defaultOnError;
+
+  return {
+    wrap<TArgs extends unknown[]>(
+      socket: TSocket,
+      handler: (...args: TArgs) => void | Promise<void>
+    ): (...args: TArgs) => void {
+      const key = options.keyGenerator ? options.keyGenerator(socket) : randomUUID();
+      let previous: Promise<unknown> = Promise.resolve();
+      let queued = 0;
+      let closed = false;
+
+      /**
+       * Charge a message, returning whether it may reach the handler
+       */
+      const admit = async (message: unknown, arrivedAt: number): Promise<boolean> => {
+        const tokens = typeof cost === 'function' ? cost(message) : cost;
+
+        if (action !== 'delay') {
+          const result = await limiter.consume(key, tokens);
+          if (result.allowed) {
+            return true;
+          }
+          onLimited?.(socket, message, result);
+          if (action === 'close' && !closed) {
+            closed = true;
+            socket.close(closeCode, closeReason);
+          }
+          return false;
+        }
+
+        try {
+          // The wait is measured from arrival, not from when earlier messages got through
+          const remainingWaitMs =
+            maxWaitMs === undefined ? undefined : Math.max(0, arrivedAt + maxWaitMs - Date.now());
+          await limiter.acquire(key, { tokens, maxWaitMs: remainingWaitMs });
+          return true;
+        } catch (error) {
+          if (error instanceof QueueFullError || error instanceof QueueTimeoutError) {
+            onLimited?.(socket, message);
+            return false;
+          }
+          throw error;
+        }
+      };
+
+      return (...args: TArgs): void => {
+        if (closed) {
+          return;
+        }
+        if (action === 'delay' && queued >= maxQueued) {
+          onLimited?.(socket, args[0]);
+          return;
+        }
+
+        queued++;
+        const arrivedAt = Date.now();
+        const admitted = previous
+          .then(() => admit(args[0], arrivedAt))
+          .finally(() => {
+            queued--;
+          });
+        // Later messages wait for this one to be let through (or not), not for its handler
+        previous = admitted.catch(() => undefined);
+
+        admitted
+          .then((allowed) => {
+            if (allowed && (socket.readyState ?? OPEN) === OPEN) {
+              return handler(...args);
+            }
+          })
+          .catch((error: unknown) => {
+            onError(error, socket);
+          });
+      };
+    },
+
+    destroy(): void {
+      limiter.destroy();
+    },
+  };
+}
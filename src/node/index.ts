@@ -0,0 +1,13 @@
+export {
+  withNodeRateLimit,
+  type NodeHandler,
+  type NodeRateLimitOptions,
+} from '../middleware/node';
+export {
+  createMessageLimiter,
+  type MessageLimiter,
+  type MessageLimiterOptions,
+  type MessageLimitAction,
+  type MessageSocket,
+} from '../middleware/websocket';
+export type { HeadersFormat } from '../middleware/headers';
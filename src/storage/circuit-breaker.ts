@@ -0,0 +1,101 @@
+import { CircuitOpenError } from '../errors';
+import { notify } from '../metrics/hooks';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker (default: 5) */
+  failureThreshold?: number;
+  /** Time in ms the breaker stays open before letting a trial call through (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Called when the breaker opens, with the error that tripped it (errors are ignored) */
+  onOpen?: (error: unknown) => void;
+  /** Called when a trial call succeeds and the breaker closes again (errors are ignored) */
+  onClose?: () => void;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker that stops calling a failing backend for a while
+ *
+ * - Closed: calls go through; consecutive failures are counted
+ * - Open: calls fail fast with CircuitOpenError until `resetTimeoutMs` has passed
+ * - Half-open: a single trial call goes through; success closes the breaker,
+ *   failure opens it again
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly onOpen: ((error: unknown) => void) | undefined;
+  private readonly onClose: (() => void) | undefined;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.onOpen = options.onOpen;
+    this.onClose = options.onClose;
+  }
+
+  /**
+   * Current state of the breaker
+   */
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Run a call through the breaker
+   * @throws CircuitOpenError if the breaker is open
+   */
+  async run<T>(call: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError();
+    }
+
+    const trial = state === 'half-open';
+    if (trial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await call();
+      this.succeeded();
+      return result;
+    } catch (error) {
+      this.failed(error, trial);
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private succeeded(): void {
+    this.failures = 0;
+    if (this.openedAt !== null) {
+      this.openedAt = null;
+      notify(this.onClose);
+    }
+  }
+
+  private failed(error: unknown, trial: boolean): void {
+    if (trial) {
+      // Stay open for another reset timeout
+      this.openedAt = Date.now();
+      return;
+    }
+
+    this.failures++;
+    if (this.openedAt === null && this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      notify(this.onOpen, error);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { StorageTimeoutError } from '../errors';
+import { CircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import type {
+  StorageAdapter,
+  BucketState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
+} from './types';
+
+export interface GuardedStorageOptions {
+  /** Fail storage operations that take longer than this many ms (default: no timeout) */
+  timeoutMs?: number;
+  /** Stop calling the storage after repeated failures (default: no breaker) */
+  breaker?: CircuitBreakerOptions;
+  /**
+   * Storage used whenever the primary fails, times out or the breaker is open
+   * (default: none - the error is thrown)
+   *
+   * A timed out operation may still complete on the primary, so an `update`
+   * retried on the fallback can be applied in both storages (e.g. charging a
+   * request twice once the primary recovers).
+   */
+  fallback?: StorageAdapter;
+}
+
+/**
+ * Reject if a promise doesn't settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, operation: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new StorageTimeoutError(operation, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Error thrown by an `update` updater, kept apart from storage failures
+ */
+class UpdaterError {
+  constructor(readonly error: unknown) {}
+}
+
+/**
+ * Refill and consume a token bucket through `update`, mirroring the
+ * `consumeTokens` step of storages that offer it
+ */
+async function consumeWithUpdate(
+  storage: StorageAdapter,
+  key: string,
+  request: TokenBucketRequest,
+  ttlMs: number
+): Promise<TokenBucketOutcome> {
+  const { capacity, refillRate, refillInterval, refillMode, tokens, now } = request;
+  let outcome: TokenBucketOutcome | undefined;
+
+  await storage.update<BucketState>(
+    key,
+    (existing) => {
+      const state = existing ?? { tokens: capacity, lastRefill: now };
+      let available: number;
+      let lastRefill: number;
+      if (refillMode === 'continuous') {
+        available = state.tokens + ((now - state.lastRefill) / refillInterval) * refillRate;
+        lastRefill = now;
+      } else {
+        const intervals = Math.floor((now - state.lastRefill) / refillInterval);
+        available = state.tokens + intervals * refillRate;
+        lastRefill = state.lastRefill + intervals * refillInterval;
+      }
+      available = Math.min(capacity, available);
+
+      if (available < tokens) {
+        // Not enough tokens - don't modify state
+        outcome = { allowed: false, state: { tokens: available, lastRefill } };
+        return null;
+      }
+      outcome = { allowed: true, state: { tokens: available - tokens, lastRefill } };
+      return outcome.state;
+    },
+    ttlMs
+  );
+
+  return outcome!;
+}
+
+/**
+ * Storage adapter guarding another with timeouts, a circuit breaker and an
+ * optional fallback storage
+ *
+ * Errors thrown by an `update` updater are not storage failures: they are
+ * rethrown as they are, without trying the fallback or counting towards the
+ * breaker.
+ *
+ * `consumeTokens` is offered when the primary supports it. If the primary
+ * fails, the fallback runs it, through `update` if it has no `consumeTokens`.
+ *
+ * @example
+ * ```typescript
+ * const storage = new GuardedStorage(new RedisStorage({ client: redis }), {
+ *   timeoutMs: 50,
+ *   breaker: { failureThreshold: 5, resetTimeoutMs: 10000 },
+ *   fallback: new MemoryStorage(),
+ * });
+ * ```
+ */
+export class GuardedStorage implements StorageAdapter {
+  readonly breaker: CircuitBreaker | null;
+  private readonly primary: StorageAdapter;
+  private readonly timeoutMs: number | undefined;
+  private readonly fallback: StorageAdapter | undefined;
+
+  consumeTokens?: (
+    key: string,
+    request: TokenBucketRequest,
+    ttlMs: number
+  ) => Promise<TokenBucketOutcome>;
+
+  constructor(primary: StorageAdapter, options: GuardedStorageOptions = {}) {
+    this.primary = primary;
+    this.timeoutMs = options.timeoutMs;
+    this.breaker = options.breaker ? new CircuitBreaker(options.breaker) : null;
+    this.fallback = options.fallback;
+
+    if (primary.consumeTokens) {
+      this.consumeTokens = (key, request, ttlMs) =>
+        this.guard('consumeTokens', (storage) =>
+          storage.consumeTokens
+            ? storage.consumeTokens(key, request, ttlMs)
+            : consumeWithUpdate(storage, key, request, ttlMs)
+        );
+    }
+  }
+
+  /**
+   * Call the primary storage with the timeout and breaker applied
+   */
+  private call<T>(operation: string, run: () => Promise<T>): Promise<T> {
+    const timeoutMs = this.timeoutMs;
+    const attempt = (): Promise<T> =>
+      timeoutMs === undefined ? run() : withTimeout(run(), timeoutMs, operation);
+    return this.breaker ? this.breaker.run(attempt) : attempt();
+  }
+
+  /**
+   * Run an operation on the primary storage, or on the fallback if that fails
+   */
+  private async guard<T>(
+    operation: string,
+    run: (storage: StorageAdapter) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.call(operation, () => run(this.primary));
+    } catch (error) {
+      if (!this.fallback) {
+        throw error;
+      }
+      return run(this.fallback);
+    }
+  }
+
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
+    return this.guard('get', (storage) => storage.get<TState>(key));
+  }
+
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
+    return this.guard('set', (storage) => storage.set(key, state, ttlMs));
+  }
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    const wrapped: StateUpdater<TState> = async (current) => {
+      try {
+        return await updater(current);
+      } catch (error) {
+        throw new UpdaterError(error);
+      }
+    };
+    // Hand updater errors past the breaker and fallback as a value
+    const outcome = await this.guard('update', async (storage) => {
+      try {
+        return { state: await storage.update(key, wrapped, ttlMs) };
+      } catch (error) {
+        if (error instanceof UpdaterError) {
+          return error;
+        }
+        throw error;
+      }
+    });
+    if (outcome instanceof UpdaterError) {
+      throw outcome.error;
+    }
+    return outcome.state;
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.guard('delete', (storage) => storage.delete(key));
+  }
+}
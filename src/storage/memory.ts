@@ -1,7 +1,7 @@
-import type { StorageAdapter, BucketState } from './types';
+import type { StorageAdapter, BucketState, StateUpdater } from './types';
 
 interface StoredEntry {
-  state: BucketState;
+  state: unknown;
   expiresAt: number;
 }
 
@@ -13,13 +13,15 @@ export interface MemoryStorageOptions {
 /**
  * In-memory storage adapter using Map
  *
- * - Stores bucket state in memory
+ * - Stores state in memory
  * - Automatic TTL-based expiration
  * - Periodic cleanup of expired entries
+ * - Atomic updates serialized per key
  */
 export class MemoryStorage implements StorageAdapter {
   private store = new Map<string, StoredEntry>();
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private locks = new Map<string, Promise<void>>();
 
   constructor(options: MemoryStorageOptions = {}) {
     const cleanupInterval = options.cleanupInterval ?? 60000;
@@ -49,7 +51,7 @@ export class MemoryStorage implements StorageAdapter {
     }
   }
 
-  async get(key: string): Promise<BucketState | null> {
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
     const entry = this.store.get(key);
     if (!entry) {
       return null;
@@ -61,16 +63,48 @@ export class MemoryStorage implements StorageAdapter {
       return null;
     }
 
-    return entry.state;
+    return entry.state as TState;
   }
 
-  async set(key: string, state: BucketState, ttlMs: number): Promise<void> {
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
     this.store.set(key, {
       state,
       expiresAt: Date.now() + ttlMs,
     });
   }
 
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    // Chain onto the previous update for this key so updates never interleave
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.locks.set(key, tail);
+
+    await previous;
+    try {
+      const existing = await this.get<TState>(key);
+      const next = await updater(existing);
+      if (next === null) {
+        return existing;
+      }
+      await this.set(key, next, ttlMs);
+      return next;
+    } finally {
+      release();
+      // Drop the lock entry once no further updates are queued behind us
+      if (this.locks.get(key) === tail) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
   async delete(key: string): Promise<void> {
     this.store.delete(key);
   }
@@ -91,5 +125,6 @@ export class MemoryStorage implements StorageAdapter {
       this.cleanupTimer = null;
     }
     this.store.clear();
+    this.locks.clear();
   }
 }
@@ -0,0 +1,53 @@
+import type {
+  StorageAdapter,
+  BucketState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
+} from './types';
+
+/**
+ * Storage adapter keeping its keys apart from others in the same storage
+ * by prefixing them
+ */
+export class PrefixedStorage implements StorageAdapter {
+  private readonly storage: StorageAdapter;
+  private readonly prefix: string;
+
+  consumeTokens?: (
+    key: string,
+    request: TokenBucketRequest,
+    ttlMs: number
+  ) => Promise<TokenBucketOutcome>;
+
+  constructor(storage: StorageAdapter, prefix: string) {
+    this.storage = storage;
+    this.prefix = prefix;
+
+    const consumeTokens = storage.consumeTokens;
+    if (consumeTokens) {
+      this.consumeTokens = (key, request, ttlMs) =>
+        consumeTokens.call(storage, this.prefix + key, request, ttlMs);
+    }
+  }
+
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
+    return this.storage.get<TState>(this.prefix + key);
+  }
+
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
+    return this.storage.set(this.prefix + key, state, ttlMs);
+  }
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    return this.storage.update(this.prefix + key, updater, ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.storage.delete(this.prefix + key);
+  }
+}
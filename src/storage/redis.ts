@@ -0,0 +1,220 @@
+import type {
+  StorageAdapter,
+  BucketState,
+  StateUpdater,
+  TokenBucketRequest,
+  TokenBucketOutcome,
+} from './types';
+
+/**
+ * Minimal Redis client surface used by RedisStorage (ioredis-compatible)
+ */
+export interface RedisClient {
+  eval(script: string, numKeys: number, ...args: string[]): Promise<unknown>;
+}
+
+/**
+ * Minimal node-redis (v4+) client surface
+ */
+export interface NodeRedisClient {
+  eval(
+    script: string,
+    options: { keys: string[]; arguments: string[] }
+  ): Promise<unknown>;
+}
+
+export interface RedisStorageOptions {
+  /** Redis client (ioredis, or node-redis wrapped with `fromNodeRedis`) */
+  client: RedisClient;
+  /** Prefix prepended to every key (default: 'ratelimit:') */
+  keyPrefix?: string;
+  /** Maximum attempts for an optimistic `update` before giving up (default: 10) */
+  maxUpdateRetries?: number;
+}
+
+const GET_SCRIPT = `return redis.call('GET', KEYS[1])`;
+
+const SET_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+return 1
+`;
+
+const DELETE_SCRIPT = `return redis.call('DEL', KEYS[1])`;
+
+/**
+ * Store ARGV[3] only if the key still holds the value that was read
+ * (ARGV[1] = '1' if a value existed, ARGV[2] = that value)
+ */
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if ARGV[1] == '0' then
+  if current then
+    return 0
+  end
+elseif current ~= ARGV[2] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[3], 'PX', ARGV[4])
+return 1
+`;
+
+/**
+ * Refill and consume a token bucket, mirroring TokenBucket's refill modes
+ */
+const CONSUME_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillRate = tonumber(ARGV[2])
+local refillInterval = tonumber(ARGV[3])
+local requested = tonumber(ARGV[4])
+local now = tonumber(ARGV[5])
+local ttl = ARGV[6]
+local mode = ARGV[7]
+
+local tokens = capacity
+local lastRefill = now
+local raw = redis.call('GET', KEYS[1])
+if raw then
+  local state = cjson.decode(raw)
+  tokens = state.tokens
+  lastRefill = state.lastRefill
+end
+
+if mode == 'continuous' then
+  tokens = math.min(capacity, tokens + (now - lastRefill) / refillInterval * refillRate)
+  lastRefill = now
+else
+  local intervals = math.floor((now - lastRefill) / refillInterval)
+  tokens = math.min(capacity, tokens + intervals * refillRate)
+  lastRefill = lastRefill + intervals * refillInterval
+end
+
+local allowed = 0
+if tokens >= requested then
+  tokens = tokens - requested
+  allowed = 1
+  redis.call('SET', KEYS[1], cjson.encode({ tokens = tokens, lastRefill = lastRefill }), 'PX', ttl)
+end
+
+return { allowed, tostring(tokens), tostring(lastRefill) }
+`;
+
+/**
+ * Adapt a node-redis (v4+) client to the RedisClient surface
+ */
+export function fromNodeRedis(client: NodeRedisClient): RedisClient {
+  return {
+    eval: (script, numKeys, ...args) =>
+      client.eval(script, {
+        keys: args.slice(0, numKeys),
+        arguments: args.slice(numKeys),
+      }),
+  };
+}
+
+/**
+ * Redis storage adapter
+ *
+ * - Shares state between processes
+ * - TTL enforced by Redis (PX expiry)
+ * - Token bucket refill-and-consume runs as a single Lua script
+ * - Generic updates use optimistic compare-and-set
+ */
+export class RedisStorage implements StorageAdapter {
+  private readonly client: RedisClient;
+  private readonly keyPrefix: string;
+  private readonly maxUpdateRetries: number;
+
+  constructor(options: RedisStorageOptions) {
+    this.client = options.client;
+    this.keyPrefix = options.keyPrefix ?? 'ratelimit:';
+    this.maxUpdateRetries = options.maxUpdateRetries ?? 10;
+  }
+
+  private prefixed(key: string): string {
+    return this.keyPrefix + key;
+  }
+
+  private async getRaw(key: string): Promise<string | null> {
+    const raw = await this.client.eval(GET_SCRIPT, 1, this.prefixed(key));
+    return typeof raw === 'string' ? raw : null;
+  }
+
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
+    const raw = await this.getRaw(key);
+    return raw === null ? null : (JSON.parse(raw) as TState);
+  }
+
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
+    await this.client.eval(
+      SET_SCRIPT,
+      1,
+      this.prefixed(key),
+      JSON.stringify(state),
+      String(Math.ceil(ttlMs))
+    );
+  }
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    for (let attempt = 0; attempt < this.maxUpdateRetries; attempt++) {
+      const raw = await this.getRaw(key);
+      const existing = raw === null ? null : (JSON.parse(raw) as TState);
+      const next = await updater(existing);
+      if (next === null) {
+        return existing;
+      }
+
+      const stored = await this.client.eval(
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        this.prefixed(key),
+        raw === null ? '0' : '1',
+        raw ?? '',
+        JSON.stringify(next),
+        String(Math.ceil(ttlMs))
+      );
+      if (Number(stored) === 1) {
+        return next;
+      }
+      // Another writer got in between - read again and retry
+    }
+
+    throw new Error(
+      `RedisStorage: update of "${key}" failed after ${this.maxUpdateRetries} attempts`
+    );
+  }
+
+  async consumeTokens(
+    key: string,
+    request: TokenBucketRequest,
+    ttlMs: number
+  ): Promise<TokenBucketOutcome> {
+    const reply = (await this.client.eval(
+      CONSUME_TOKENS_SCRIPT,
+      1,
+      this.prefixed(key),
+      String(request.capacity),
+      String(request.refillRate),
+      String(request.refillInterval),
+      String(request.tokens),
+      String(request.now),
+      String(Math.ceil(ttlMs)),
+      request.refillMode
+    )) as [number | string, string, string];
+
+    return {
+      allowed: Number(reply[0]) === 1,
+      state: {
+        tokens: Number(reply[1]),
+        lastRefill: Number(reply[2]),
+      },
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.eval(DELETE_SCRIPT, 1, this.prefixed(key));
+  }
+}
@@ -8,27 +8,155 @@ export interface BucketState {
   lastRefill: number;
 }
 
+/**
+ * State of a sliding window log
+ */
+export interface WindowLogState {
+  /** Unix timestamps (ms) of requests inside the window, oldest first */
+  timestamps: number[];
+}
+
+/**
+ * State of a sliding window counter
+ */
+export interface WindowCounterState {
+  /** Unix timestamp (ms) at which the current window started */
+  windowStart: number;
+  /** Number of requests counted in the current window */
+  current: number;
+  /** Number of requests counted in the previous window */
+  previous: number;
+}
+
+/**
+ * State of a fixed window counter
+ */
+export interface FixedWindowState {
+  /** Unix timestamp (ms) at which the counted window started */
+  windowStart: number;
+  /** Number of requests counted in the window */
+  count: number;
+}
+
+/**
+ * State of a GCRA limiter
+ */
+export interface GcraState {
+  /** Theoretical arrival time (Unix ms) of the next request at the sustained rate */
+  tat: number;
+}
+
+/**
+ * State of a concurrency limiter
+ */
+export interface ConcurrencyState {
+  /** Active lease IDs mapped to their expiry (Unix ms) */
+  leases: Record<string, number>;
+}
+
+/**
+ * State of a key watched for temporary bans
+ */
+export interface BanState {
+  /** Unix timestamps (ms) of recent denials, oldest first */
+  denials: number[];
+  /** Unix timestamp (ms) until which the key is banned (0 if not banned) */
+  bannedUntil: number;
+}
+
+/**
+ * Function used to atomically update the state for a key
+ *
+ * Receives the current state (or null if not found) and returns the new
+ * state to store, or null to leave the stored state untouched
+ */
+export type StateUpdater<TState = BucketState> = (
+  current: TState | null
+) => TState | null | Promise<TState | null>;
+
+/**
+ * Parameters for a single refill-and-consume step of a token bucket
+ */
+export interface TokenBucketRequest {
+  /** Maximum number of tokens the bucket can hold */
+  capacity: number;
+  /** Number of tokens to add per refill interval */
+  refillRate: number;
+  /** Time interval in milliseconds between refills */
+  refillInterval: number;
+  /** Whether tokens refill in whole intervals or continuously */
+  refillMode: 'interval' | 'continuous';
+  /** Number of tokens to consume */
+  tokens: number;
+  /** Current Unix timestamp (ms) */
+  now: number;
+}
+
+/**
+ * Outcome of a refill-and-consume step of a token bucket
+ */
+export interface TokenBucketOutcome {
+  /** Whether the tokens were consumed */
+  allowed: boolean;
+  /** Bucket state after refilling (and consuming, if allowed) */
+  state: BucketState;
+}
+
 /**
  * Interface for storage adapters
+ *
+ * Adapters store opaque, JSON-serializable state per key; the shape is
+ * chosen by the algorithm using the key (BucketState by default).
  */
 export interface StorageAdapter {
   /**
-   * Get the bucket state for a key
+   * Get the state for a key
    * @param key - Unique identifier for the bucket
-   * @returns The bucket state or null if not found
+   * @returns The state or null if not found
    */
-  get(key: string): Promise<BucketState | null>;
+  get<TState = BucketState>(key: string): Promise<TState | null>;
 
   /**
-   * Set the bucket state for a key
+   * Set the state for a key
    * @param key - Unique identifier for the bucket
-   * @param state - The bucket state to store
+   * @param state - The state to store
    * @param ttlMs - Time-to-live in milliseconds
    */
-  set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+  set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void>;
+
+  /**
+   * Atomically read, modify and write the state for a key
+   *
+   * No other update for the same key may run between reading the current
+   * state and storing the result of `updater`.
+   * @param key - Unique identifier for the bucket
+   * @param updater - Computes the new state from the current one
+   * @param ttlMs - Time-to-live in milliseconds for the new state
+   * @returns The stored state after the update (null if none)
+   */
+  update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null>;
+
+  /**
+   * Refill and consume a token bucket in a single backend operation (optional)
+   *
+   * Adapters that can run the whole step server-side implement this so it
+   * needs one round trip; TokenBucket falls back to `update` otherwise.
+   * @param key - Unique identifier for the bucket
+   * @param request - Bucket configuration and number of tokens to consume
+   * @param ttlMs - Time-to-live in milliseconds for the new state
+   */
+  consumeTokens?(
+    key: string,
+    request: TokenBucketRequest,
+    ttlMs: number
+  ): Promise<TokenBucketOutcome>;
 
   /**
-   * Delete the bucket state for a key
+   * Delete the state for a key
    * @param key - Unique identifier for the bucket
    */
   delete(key: string): Promise<void>;
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import Fastify from 'fastify';
+import { createKeyMatcher } from '../src/middleware/access';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+import { combineKeys, headerKey } from '../src/middleware/keys';
+import { createRulesMiddleware } from '../src/middleware/rules';
+import { fastifyRateLimit } from '../src/middleware/fastify';
+import { MemoryStorage } from '../src/storage/memory';
+
+describe('createKeyMatcher', () => {
+  const isListed = createKeyMatcher([
+    '10.0.0.0/8',
+    '192.0.2.1',
+    '2001:db8::/32',
+    'x-api-key:internal',
+  ]);
+
+  it('should match keys exactly', () => {
+    expect(isListed('x-api-key:internal')).toBe(true);
+    expect(isListed('x-api-key:other')).toBe(false);
+  });
+
+  it('should match addresses in subnets', () => {
+    expect(isListed('10.1.2.3')).toBe(true);
+    expect(isListed('192.0.2.1')).toBe(true);
+    expect(isListed('::ffff:10.0.0.1')).toBe(true);
+    expect(isListed('192.0.2.2')).toBe(false);
+    expect(isListed('11.0.0.1')).toBe(false);
+  });
+
+  it('should match subnet keys inside a listed subnet', () => {
+    expect(isListed('2001:db8:1:2::/64')).toBe(true);
+    expect(isListed('2001:db9::/64')).toBe(false);
+    // A /8 key isn't inside the single listed address
+    expect(createKeyMatcher(['10.0.0.1'])('10.0.0.0/8')).toBe(false);
+  });
+
+  it('should only match whole keys', () => {
+    expect(isListed('/search|10.1.2.3')).toBe(false);
+    expect(isListed('x-api-key:evil|10.0.0.1')).toBe(false);
+  });
+});
+
+describe('Access lists and bans in middleware', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    app = express();
+  });
+
+  function route(): void {
+    app.get('/test', (_req, res) => res.json({ ok: true }));
+  }
+
+  it('should let allowlisted keys bypass the limit', async () => {
+    app.use(
+      createRateLimitMiddleware({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        keyGenerator: (req) => req.get('x-client') ?? 'anonymous',
+        allowlist: ['trusted'],
+      })
+    );
+    route();
+
+    for (let i = 0; i < 3; i++) {
+      const response = await request(app).get('/test').set('X-Client', 'trusted');
+      expect(response.status).toBe(200);
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    }
+    await request(app).get('/test');
+    expect((await request(app).get('/test')).status).toBe(429);
+  });
+
+  it('should not let spoofed headers or paths match the allowlist', async () => {
+    app.use(
+      createRateLimitMiddleware({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        keyGenerator: combineKeys((req) => req.path, headerKey('x-api-key')),
+        allowlist: ['10.0.0.0/8'],
+      })
+    );
+    app.get('*', (_req, res) => res.json({ ok: true }));
+
+    const spoofed = (): request.Test =>
+      request(app).get('/x%7C10.0.0.1').set('X-API-Key', 'evil|10.0.0.1');
+    expect((await spoofed()).status).toBe(200);
+    expect((await spoofed()).status).toBe(429);
+  });
+
+  it('should reject denylisted addresses without charging them', async () => {
+    const onRateLimited = vi.fn((_req, res, result) => res.status(403).json(result));
+    app.use(
+      createRateLimitMiddleware({
+        capacity: 10,
+        refillRate: 1,
+        refillInterval: 60000,
+        keyGenerator: (req) => req.get('x-client-ip')!,
+        denylist: ['203.0.113.0/24'],
+        onRateLimited,
+      })
+    );
+    route();
+
+    const response = await request(app).get('/test').set('X-Client-IP', '203.0.113.7');
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ allowed: false, blocked: 'denylist' });
+    expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+
+    const allowed = await request(app).get('/test').set('X-Client-IP', '198.51.100.1');
+    expect(allowed.headers['x-ratelimit-remaining']).toBe('9');
+  });
+
+  it('should ban keys that keep getting denied, in the shared storage', async () => {
+    const storage = new MemoryStorage();
+    app.use(
+      createRateLimitMiddleware({
+        storage,
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 1000,
+        keyGenerator: () => 'client',
+        ban: { maxDenials: 2, windowMs: 10000, banMs: 60000 },
+      })
+    );
+    route();
+
+    await request(app).get('/test');
+    expect((await request(app).get('/test')).headers['retry-after']).toBe('1');
+    // The second denial bans the key, and Retry-After covers the ban
+    const banned = await request(app).get('/test');
+    expect(banned.status).toBe(429);
+    expect(banned.headers['retry-after']).toBe('60');
+
+    // Tokens have refilled, but the ban holds
+    await vi.advanceTimersByTimeAsync(5000);
+    const blocked = await request(app).get('/test');
+    expect(blocked.status).toBe(429);
+    expect(blocked.headers['retry-after']).toBe('55');
+    expect(await storage.get('ban:client')).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(55000);
+    expect((await request(app).get('/test')).status).toBe(200);
+    storage.destroy();
+  });
+
+  it('should check lists against unprefixed keys in rules', async () => {
+    app.use(
+      createRulesMiddleware({
+        keyGenerator: (req) => req.get('x-client') ?? 'anonymous',
+        allowlist: ['trusted'],
+        rules: [{ name: 'all', capacity: 1, refillRate: 1, refillInterval: 60000 }],
+      })
+    );
+    route();
+
+    await request(app).get('/test').set('X-Client', 'trusted');
+    expect((await request(app).get('/test').set('X-Client', 'trusted')).status).toBe(200);
+    await request(app).get('/test');
+    expect((await request(app).get('/test')).status).toBe(429);
+  });
+
+  it('should deny and ban in rules before any rule matches', async () => {
+    const onRateLimited = vi.fn((_req, res, result, rule) =>
+      res.status(429).json({ blocked: result.blocked ?? null, rule: rule?.name ?? null })
+    );
+    app.use(
+      createRulesMiddleware({
+        keyGenerator: (req) => req.get('x-client') ?? 'anonymous',
+        denylist: ['blocked'],
+        ban: { maxDenials: 1, windowMs: 10000, banMs: 60000 },
+        rules: [
+          {
+            name: 'login',
+            match: { path: '/login' },
+            capacity: 1,
+            refillRate: 1,
+            refillInterval: 60000,
+          },
+        ],
+        onRateLimited,
+      })
+    );
+    app.get('*', (_req, res) => res.json({ ok: true }));
+
+    // No rule matches /other, but the denylist still applies
+    const denied = await request(app).get('/other').set('X-Client', 'blocked');
+    expect(denied.body).toEqual({ blocked: 'denylist', rule: null });
+
+    await request(app).get('/login').set('X-Client', 'abuser');
+    const limited = await request(app).get('/login').set('X-Client', 'abuser');
+    expect(limited.body).toEqual({ blocked: null, rule: 'login' });
+    expect(limited.headers['retry-after']).toBe('60');
+
+    const banned = await request(app).get('/other').set('X-Client', 'abuser');
+    expect(banned.status).toBe(429);
+    expect(banned.body).toEqual({ blocked: 'ban', rule: null });
+    expect(banned.headers['retry-after']).toBe('60');
+
+    expect((await request(app).get('/other').set('X-Client', 'someone')).status).toBe(200);
+  });
+
+  it('should check lists against unprefixed keys in Fastify routes', async () => {
+    vi.useRealTimers();
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, {
+      capacity: 10,
+      refillRate: 1,
+      refillInterval: 60000,
+      denylist: ['127.0.0.1'],
+    });
+    fastify.get(
+      '/own',
+      { config: { rateLimit: { capacity: 5, refillRate: 1, refillInterval: 60000 } } },
+      async () => 'ok'
+    );
+
+    const response = await fastify.inject({ method: 'GET', url: '/own' });
+    expect(response.statusCode).toBe(429);
+    expect(response.json()).toEqual({ error: 'Too Many Requests' });
+    await fastify.close();
+  });
+
+  it('should ban Fastify clients on every route, not just the one denying them', async () => {
+    vi.useRealTimers();
+    const fastify = Fastify();
+    await fastify.register(fastifyRateLimit, {
+      capacity: 10,
+      refillRate: 1,
+      refillInterval: 60000,
+      ban: { maxDenials: 1, windowMs: 60000, banMs: 60000 },
+    });
+    fastify.get(
+      '/a',
+      { config: { rateLimit: { capacity: 1, refillRate: 1, refillInterval: 60000 } } },
+      async () => 'ok'
+    );
+    fastify.get('/b', async () => 'ok');
+
+    await fastify.inject({ method: 'GET', url: '/a' });
+    expect((await fastify.inject({ method: 'GET', url: '/a' })).statusCode).toBe(429);
+
+    const response = await fastify.inject({ method: 'GET', url: '/b' });
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    await fastify.close();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TemporaryBans } from '../src/limiters/bans';
+import { MemoryStorage } from '../src/storage/memory';
+
+describe('TemporaryBans', () => {
+  let storage: MemoryStorage;
+  let bans: TemporaryBans;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    storage = new MemoryStorage();
+    bans = new TemporaryBans({ storage, maxDenials: 3, windowMs: 10000, banMs: 60000 });
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should ban a key once it reaches maxDenials within the window', async () => {
+    expect(await bans.recordDenial('a')).toBeNull();
+    expect(await bans.recordDenial('a')).toBeNull();
+    expect(await bans.bannedUntil('a')).toBeNull();
+
+    expect(await bans.recordDenial('a')).toBe(1_060_000);
+    expect(await bans.bannedUntil('a')).toBe(1_060_000);
+    expect(await bans.bannedUntil('b')).toBeNull();
+  });
+
+  it('should only count denials inside the window', async () => {
+    await bans.recordDenial('a');
+    await bans.recordDenial('a');
+    vi.advanceTimersByTime(10001);
+
+    expect(await bans.recordDenial('a')).toBeNull();
+    expect(await bans.recordDenial('a')).toBeNull();
+    expect(await bans.recordDenial('a')).not.toBeNull();
+  });
+
+  it('should lift the ban once it expires and start counting again', async () => {
+    for (let i = 0; i < 3; i++) {
+      await bans.recordDenial('a');
+    }
+    // Denials while banned don't extend the ban
+    vi.advanceTimersByTime(30000);
+    expect(await bans.recordDenial('a')).toBe(1_060_000);
+
+    vi.advanceTimersByTime(30000);
+    expect(await bans.bannedUntil('a')).toBeNull();
+    expect(await bans.recordDenial('a')).toBeNull();
+  });
+
+  it('should ban and unban keys by hand', async () => {
+    expect(await bans.ban('a', 5000)).toBe(1_005_000);
+    expect(await bans.bannedUntil('a')).toBe(1_005_000);
+
+    await bans.unban('a');
+    expect(await bans.bannedUntil('a')).toBeNull();
+  });
+
+  it('should share bans through the storage', async () => {
+    const other = new TemporaryBans({ storage, maxDenials: 3, windowMs: 10000, banMs: 60000 });
+
+    await bans.recordDenial('a');
+    await other.recordDenial('a');
+    await bans.recordDenial('a');
+
+    expect(await other.bannedUntil('a')).toBe(1_060_000);
+    expect(await storage.get('ban:a')).toEqual({ denials: [], bannedUntil: 1_060_000 });
+  });
+
+  it('should report bans, ignoring observer errors', async () => {
+    const onBan = vi.fn(() => {
+      throw new Error('observer failed');
+    });
+    bans = new TemporaryBans({ storage, maxDenials: 1, windowMs: 1000, banMs: 1000, onBan });
+
+    expect(await bans.recordDenial('a')).toBe(1_001_000);
+    await bans.recordDenial('a');
+
+    expect(onBan).toHaveBeenCalledTimes(1);
+    expect(onBan).toHaveBeenCalledWith('a', 1_001_000);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CompositeRateLimiter } from '../src/limiters/composite';
+
+describe('CompositeRateLimiter', () => {
+  let limiter: CompositeRateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2024, 0, 1, 10, 0));
+    limiter = new CompositeRateLimiter({
+      limits: [
+        { name: 'second', capacity: 3, refillRate: 3, refillInterval: 1000 },
+        { name: 'minute', algorithm: 'fixed-window', capacity: 5, windowMs: 60000 },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    limiter.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('combined result', () => {
+    it('should report the most restrictive limit', async () => {
+      const result = await limiter.consume('user-1', 2);
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(1);
+      expect(result.resetAt).toBe(Date.now() + 1000);
+    });
+
+    it('should include per-limit details', async () => {
+      const result = await limiter.consume('user-1');
+
+      expect(result.limits).toEqual([
+        expect.objectContaining({ name: 'second', capacity: 3, allowed: true, remaining: 2 }),
+        expect.objectContaining({ name: 'minute', capacity: 5, allowed: true, remaining: 4 }),
+      ]);
+    });
+
+    it('should deny when any limit denies', async () => {
+      await limiter.consume('user-1', 3);
+
+      const result = await limiter.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(1);
+      expect(result.limits.map((limit) => limit.allowed)).toEqual([false, true]);
+    });
+
+    it('should report the longest retryAfter of the denying limits', async () => {
+      await limiter.consume('user-1', 3);
+      vi.advanceTimersByTime(1000);
+      await limiter.consume('user-1', 2);
+
+      // Per-second limit has room again, the per-minute limit is exhausted
+      vi.advanceTimersByTime(1000);
+      const result = await limiter.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(58);
+      expect(result.limits.map((limit) => limit.allowed)).toEqual([true, false]);
+    });
+  });
+
+  describe('atomic consumption', () => {
+    it('should not consume from any limit when one denies', async () => {
+      await limiter.consume('user-1', 3);
+      await limiter.consume('user-1');
+      await limiter.consume('user-1');
+
+      const result = await limiter.check('user-1');
+      expect(result.limits.find((limit) => limit.name === 'minute')!.remaining).toBe(2);
+    });
+
+    it('should report untouched state for limits that would have allowed', async () => {
+      await limiter.consume('user-1', 3);
+
+      const result = await limiter.consume('user-1');
+      expect(result.limits[1].remaining).toBe(2);
+    });
+
+    it('should stay within every limit under parallel load', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 50 }, () => limiter.consume('user-1'))
+      );
+      expect(results.filter((r) => r.allowed)).toHaveLength(3);
+
+      vi.advanceTimersByTime(1000);
+      const later = await Promise.all(
+        Array.from({ length: 50 }, () => limiter.consume('user-1'))
+      );
+      expect(later.filter((r) => r.allowed)).toHaveLength(2);
+    });
+  });
+
+  describe('check', () => {
+    it('should not consume tokens', async () => {
+      await limiter.check('user-1');
+      const result = await limiter.check('user-1');
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(3);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject an empty list of limits', () => {
+      expect(() => new CompositeRateLimiter({ limits: [] })).toThrow('at least one limit');
+    });
+
+    it('should reject duplicate limit names', () => {
+      expect(
+        () =>
+          new CompositeRateLimiter({
+            limits: [
+              { name: 'a', capacity: 1, refillRate: 1, refillInterval: 1000 },
+              { name: 'a', capacity: 2, refillRate: 1, refillInterval: 1000 },
+            ],
+          })
+      ).toThrow('duplicate limit name "a"');
+    });
+
+    it('should reject per-key limit resolvers', () => {
+      expect(
+        () =>
+          new CompositeRateLimiter({
+            limits: [
+              {
+                name: 'a',
+                capacity: 1,
+                refillRate: 1,
+                refillInterval: 1000,
+                resolveLimits: () => ({ capacity: 2, refillRate: 1, refillInterval: 1000 }),
+              },
+            ],
+          })
+      ).toThrow('limit "a" cannot resolve limits per key');
+    });
+  });
+
+  describe('refund, penalize, reset and get', () => {
+    it('should refund every limit', async () => {
+      await limiter.consume('user-1', 3);
+
+      const status = await limiter.refund('user-1', 2);
+      expect(status.limits.map((limit) => limit.remaining)).toEqual([2, 4]);
+      expect(status.remaining).toBe(2);
+      expect(status.capacity).toBe(3);
+    });
+
+    it('should penalize every limit within its bounds', async () => {
+      const status = await limiter.penalize('user-1', 4);
+
+      expect(status.limits.map((limit) => limit.remaining)).toEqual([0, 1]);
+      expect((await limiter.consume('user-1')).allowed).toBe(false);
+    });
+
+    it('should report per-limit status and clear it on reset', async () => {
+      await limiter.consume('user-1');
+      expect((await limiter.get('user-1')).limits).toEqual([
+        expect.objectContaining({ name: 'second', capacity: 3, remaining: 2 }),
+        expect.objectContaining({ name: 'minute', capacity: 5, remaining: 4 }),
+      ]);
+
+      await limiter.reset('user-1');
+      const status = await limiter.get('user-1');
+      expect(status.state).toBeNull();
+      expect(status.remaining).toBe(3);
+    });
+  });
+});
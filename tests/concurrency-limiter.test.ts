@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { ConcurrencyLimiter } from '../src/limiters/concurrency';
+import { createConcurrencyMiddleware } from '../src/middleware/express';
+
+describe('ConcurrencyLimiter', () => {
+  let limiter: ConcurrencyLimiter;
+
+  beforeEach(() => {
+    limiter = new ConcurrencyLimiter({ maxConcurrent: 2, leaseTtlMs: 10000 });
+  });
+
+  afterEach(() => {
+    limiter.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('acquire and release', () => {
+    it('should grant leases up to maxConcurrent', async () => {
+      const a = await limiter.acquire('reports');
+      const b = await limiter.acquire('reports');
+      const c = await limiter.acquire('reports');
+
+      expect(a).not.toBeNull();
+      expect(b).not.toBeNull();
+      expect(a!.id).not.toBe(b!.id);
+      expect(c).toBeNull();
+      expect(await limiter.active('reports')).toBe(2);
+    });
+
+    it('should free the slot on release', async () => {
+      const a = await limiter.acquire('reports');
+      await limiter.acquire('reports');
+
+      await a!.release();
+
+      expect(await limiter.active('reports')).toBe(1);
+      expect(await limiter.acquire('reports')).not.toBeNull();
+    });
+
+    it('should ignore repeated release calls', async () => {
+      const a = await limiter.acquire('reports');
+      const b = await limiter.acquire('reports');
+      await a!.release();
+      await limiter.acquire('reports');
+
+      await a!.release();
+
+      expect(await limiter.active('reports')).toBe(2);
+      await b!.release();
+    });
+
+    it('should track keys independently', async () => {
+      await limiter.acquire('reports');
+      await limiter.acquire('reports');
+
+      expect(await limiter.acquire('exports')).not.toBeNull();
+    });
+
+    it('should grant exactly maxConcurrent leases under parallel load', async () => {
+      const leases = await Promise.all(
+        Array.from({ length: 100 }, () => limiter.acquire('reports'))
+      );
+
+      expect(leases.filter((lease) => lease !== null)).toHaveLength(2);
+    });
+  });
+
+  describe('lease expiry', () => {
+    it('should expire leases of crashed holders', async () => {
+      vi.useFakeTimers();
+      const lease = await limiter.acquire('reports');
+      await limiter.acquire('reports');
+      expect(lease!.expiresAt).toBe(Date.now() + 10000);
+
+      vi.advanceTimersByTime(9999);
+      expect(await limiter.acquire('reports')).toBeNull();
+
+      vi.advanceTimersByTime(1);
+      expect(await limiter.active('reports')).toBe(0);
+      expect(await limiter.acquire('reports')).not.toBeNull();
+    });
+
+    it('should keep newer leases when an older one expires', async () => {
+      vi.useFakeTimers();
+      await limiter.acquire('reports');
+      vi.advanceTimersByTime(5000);
+      await limiter.acquire('reports');
+
+      vi.advanceTimersByTime(5000);
+      expect(await limiter.active('reports')).toBe(1);
+    });
+  });
+});
+
+describe('Concurrency Middleware', () => {
+  it('should reject requests beyond the in-flight cap', async () => {
+    const app = express();
+    const pending: (() => void)[] = [];
+    app.use(
+      createConcurrencyMiddleware({ maxConcurrent: 1, keyGenerator: () => 'reports' })
+    );
+    app.get('/slow', (_req, res) => {
+      pending.push(() => res.json({ done: true }));
+    });
+    app.get('/fast', (_req, res) => res.json({ done: true }));
+
+    const slow = request(app).get('/slow').then((r) => r);
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    const rejected = await request(app).get('/fast');
+    expect(rejected.status).toBe(429);
+    expect(rejected.body.error).toBe('Too Many Concurrent Requests');
+
+    pending[0]();
+    expect((await slow).status).toBe(200);
+
+    // Slot is released once the response finished
+    await vi.waitFor(async () => {
+      expect((await request(app).get('/fast')).status).toBe(200);
+    });
+  });
+
+  it('should release the slot when the client disconnects', async () => {
+    const app = express();
+    let closed = false;
+    app.use(
+      createConcurrencyMiddleware({ maxConcurrent: 1, keyGenerator: () => 'reports' })
+    );
+    app.get('/hang', (req) => {
+      req.on('close', () => {
+        closed = true;
+      });
+    });
+    app.get('/fast', (_req, res) => res.json({ done: true }));
+
+    const server = app.listen(0);
+    const { port } = server.address() as { port: number };
+    const controller = new AbortController();
+    const hanging = fetch(`http://127.0.0.1:${port}/hang`, {
+      signal: controller.signal,
+    }).catch(() => null);
+
+    await vi.waitFor(async () => {
+      expect((await request(server).get('/fast')).status).toBe(429);
+    });
+
+    controller.abort();
+    await hanging;
+    await vi.waitFor(() => expect(closed).toBe(true));
+
+    await vi.waitFor(async () => {
+      expect((await request(server).get('/fast')).status).toBe(200);
+    });
+    server.close();
+  });
+
+  it('should use custom onLimited handler and skip option', async () => {
+    const app = express();
+    app.use(
+      createConcurrencyMiddleware({
+        maxConcurrent: 0,
+        skip: (req) => req.path === '/health',
+        onLimited: (_req, res) => {
+          res.status(503).json({ message: 'Busy' });
+        },
+      })
+    );
+    app.get('/test', (_req, res) => res.json({ success: true }));
+    app.get('/health', (_req, res) => res.json({ status: 'ok' }));
+
+    expect((await request(app).get('/test')).status).toBe(503);
+    expect((await request(app).get('/health')).status).toBe(200);
+  });
+});
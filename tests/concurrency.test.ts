@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TokenBucket } from '../src/algorithms/token-bucket';
+import { MemoryStorage } from '../src/storage/memory';
+import { RateLimiter } from '../src';
+
+describe('Concurrent consumption', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    storage.destroy();
+  });
+
+  it('should allow exactly capacity requests when fired in parallel', async () => {
+    const bucket = new TokenBucket(
+      { capacity: 50, refillRate: 1, refillInterval: 60000 },
+      storage
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: 500 }, () => bucket.consume('user-1'))
+    );
+
+    expect(results.filter((r) => r.allowed)).toHaveLength(50);
+    expect(results.filter((r) => !r.allowed)).toHaveLength(450);
+    expect((await bucket.check('user-1')).remaining).toBe(0);
+  });
+
+  it('should respect capacity for parallel multi-token consumes', async () => {
+    const bucket = new TokenBucket(
+      { capacity: 30, refillRate: 1, refillInterval: 60000 },
+      storage
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: 200 }, () => bucket.consume('user-1', 3))
+    );
+
+    expect(results.filter((r) => r.allowed)).toHaveLength(10);
+  });
+
+  it('should report strictly decreasing remaining for allowed requests', async () => {
+    const bucket = new TokenBucket(
+      { capacity: 100, refillRate: 1, refillInterval: 60000 },
+      storage
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: 300 }, () => bucket.consume('user-1'))
+    );
+
+    const remaining = results.filter((r) => r.allowed).map((r) => r.remaining);
+    expect(new Set(remaining).size).toBe(100);
+    expect(Math.min(...remaining)).toBe(0);
+    expect(Math.max(...remaining)).toBe(99);
+  });
+
+  it('should isolate parallel consumption across keys', async () => {
+    const bucket = new TokenBucket(
+      { capacity: 20, refillRate: 1, refillInterval: 60000 },
+      storage
+    );
+
+    const results = await Promise.all(
+      Array.from({ length: 400 }, (_, i) => bucket.consume(`user-${i % 4}`))
+    );
+
+    for (let k = 0; k < 4; k++) {
+      const forKey = results.filter((_, i) => i % 4 === k);
+      expect(forKey.filter((r) => r.allowed)).toHaveLength(20);
+    }
+  });
+
+  it('should serialize async updaters for the same key', async () => {
+    const calls = Array.from({ length: 100 }, () =>
+      storage.update(
+        'counter',
+        async (current) => {
+          // Yield between read and write to give other updates a chance to interleave
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          return { tokens: (current?.tokens ?? 0) + 1, lastRefill: 0 };
+        },
+        10000
+      )
+    );
+    await Promise.all(calls);
+
+    expect((await storage.get('counter'))?.tokens).toBe(100);
+  });
+
+  it('should allow exactly capacity through RateLimiter under parallel load', async () => {
+    const limiter = new RateLimiter({
+      capacity: 25,
+      refillRate: 1,
+      refillInterval: 60000,
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 250 }, () => limiter.consume('user-1'))
+    );
+
+    expect(results.filter((r) => r.allowed)).toHaveLength(25);
+    limiter.destroy();
+  });
+});
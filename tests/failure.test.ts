@@ -0,0 +1,358 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import {
+  RateLimiter,
+  MemoryStorage,
+  GuardedStorage,
+  CircuitBreaker,
+  CircuitOpenError,
+  StorageTimeoutError,
+} from '../src';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+import type { BucketState, StateUpdater, StorageAdapter } from '../src/storage/types';
+
+/**
+ * Memory storage that can be made to fail or hang
+ */
+class FlakyStorage implements StorageAdapter {
+  readonly memory = new MemoryStorage();
+  failing = false;
+  hanging = false;
+  calls = 0;
+
+  private async guard<T>(run: () => Promise<T>): Promise<T> {
+    this.calls++;
+    if (this.hanging) {
+      return new Promise<T>(() => {});
+    }
+    if (this.failing) {
+      throw new Error('connection refused');
+    }
+    return run();
+  }
+
+  async get<TState = BucketState>(key: string): Promise<TState | null> {
+    return this.guard(() => this.memory.get<TState>(key));
+  }
+
+  async set<TState = BucketState>(key: string, state: TState, ttlMs: number): Promise<void> {
+    return this.guard(() => this.memory.set(key, state, ttlMs));
+  }
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    return this.guard(() => this.memory.update(key, updater, ttlMs));
+  }
+
+  async delete(key: string): Promise<void> {
+    return this.guard(() => this.memory.delete(key));
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const fail = () => Promise.reject(new Error('down'));
+  const succeed = () => Promise.resolve('ok');
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const opened: unknown[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      onOpen: (error) => opened.push(error),
+    });
+    const call = vi.fn(fail);
+
+    await expect(breaker.run(call)).rejects.toThrow('down');
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.run(call)).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+    expect(opened).toEqual([new Error('down')]);
+
+    await expect(breaker.run(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reset the failure count on success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    await breaker.run(succeed);
+    await expect(breaker.run(fail)).rejects.toThrow();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should close after a successful trial call', async () => {
+    const onClose = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onClose });
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    expect(await breaker.run(succeed)).toBe('ok');
+    expect(breaker.state).toBe('closed');
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore errors thrown by its listeners', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+      onOpen: () => {
+        throw new Error('onOpen failed');
+      },
+      onClose: () => {
+        throw new Error('onClose failed');
+      },
+    });
+
+    await expect(breaker.run(fail)).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+    vi.advanceTimersByTime(1000);
+
+    expect(await breaker.run(succeed)).toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should let a single trial through and reopen if it fails', async () => {
+    const onOpen = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onOpen });
+
+    await expect(breaker.run(fail)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+
+    const trial = breaker.run(fail);
+    await expect(breaker.run(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    await expect(trial).rejects.toThrow('down');
+
+    expect(breaker.state).toBe('open');
+    expect(onOpen).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GuardedStorage', () => {
+  let primary: FlakyStorage;
+
+  beforeEach(() => {
+    primary = new FlakyStorage();
+  });
+
+  afterEach(() => {
+    primary.memory.destroy();
+  });
+
+  it('should time out slow operations', async () => {
+    vi.useFakeTimers();
+    primary.hanging = true;
+    const storage = new GuardedStorage(primary, { timeoutMs: 50 });
+
+    const pending = storage.get('key');
+    const assertion = expect(pending).rejects.toBeInstanceOf(StorageTimeoutError);
+    await vi.advanceTimersByTimeAsync(50);
+    await assertion;
+
+    vi.useRealTimers();
+  });
+
+  it('should use the fallback while the primary fails', async () => {
+    const fallback = new MemoryStorage();
+    const storage = new GuardedStorage(primary, { fallback });
+
+    await storage.set('key', { tokens: 1, lastRefill: 0 }, 60000);
+    primary.failing = true;
+    await storage.set('key', { tokens: 2, lastRefill: 0 }, 60000);
+
+    expect(await storage.get('key')).toEqual({ tokens: 2, lastRefill: 0 });
+    expect(await primary.memory.get('key')).toEqual({ tokens: 1, lastRefill: 0 });
+
+    fallback.destroy();
+  });
+
+  it('should skip the primary while the breaker is open', async () => {
+    const fallback = new MemoryStorage();
+    const storage = new GuardedStorage(primary, {
+      breaker: { failureThreshold: 1 },
+      fallback,
+    });
+
+    primary.failing = true;
+    await storage.get('key');
+    await storage.get('key');
+    await storage.get('key');
+
+    expect(primary.calls).toBe(1);
+    expect(storage.breaker?.state).toBe('open');
+
+    fallback.destroy();
+  });
+
+  it('should rethrow updater errors without falling back or tripping the breaker', async () => {
+    const fallback = new MemoryStorage();
+    const fallbackUpdate = vi.spyOn(fallback, 'update');
+    const storage = new GuardedStorage(primary, { breaker: { failureThreshold: 1 }, fallback });
+    const error = new Error('bad state');
+    const updater = (): BucketState => {
+      throw error;
+    };
+
+    await expect(storage.update('key', updater, 60000)).rejects.toBe(error);
+
+    expect(storage.breaker?.state).toBe('closed');
+    expect(fallbackUpdate).not.toHaveBeenCalled();
+    fallback.destroy();
+  });
+
+  it('should only offer consumeTokens when the primary does', () => {
+    const withFastPath = Object.assign(new FlakyStorage(), {
+      consumeTokens: vi.fn(),
+    });
+
+    expect(new GuardedStorage(primary).consumeTokens).toBeUndefined();
+    expect(new GuardedStorage(withFastPath).consumeTokens).toBeDefined();
+    expect(
+      new GuardedStorage(withFastPath, { fallback: new MemoryStorage() }).consumeTokens
+    ).toBeDefined();
+
+    withFastPath.memory.destroy();
+  });
+
+  it('should consume tokens on the primary, then through update on the fallback', async () => {
+    const outcome = { allowed: true, state: { tokens: 1, lastRefill: 0 } };
+    const consumeTokens = vi.fn(async () => {
+      if (primary.failing) {
+        throw new Error('connection refused');
+      }
+      return outcome;
+    });
+    const fallback = new MemoryStorage();
+    const storage = new GuardedStorage(Object.assign(primary, { consumeTokens }), { fallback });
+    const bucket = {
+      capacity: 2,
+      refillRate: 1,
+      refillInterval: 1000,
+      refillMode: 'interval' as const,
+      tokens: 2,
+      now: 1000,
+    };
+
+    expect(await storage.consumeTokens!('key', bucket, 60000)).toBe(outcome);
+    expect(consumeTokens).toHaveBeenCalledWith('key', bucket, 60000);
+
+    primary.failing = true;
+    expect(await storage.consumeTokens!('key', bucket, 60000)).toEqual({
+      allowed: true,
+      state: { tokens: 0, lastRefill: 1000 },
+    });
+    expect(await storage.consumeTokens!('key', { ...bucket, now: 2500 }, 60000)).toEqual({
+      allowed: false,
+      state: { tokens: 1, lastRefill: 2000 },
+    });
+    expect(await fallback.get('key')).toEqual({ tokens: 0, lastRefill: 1000 });
+
+    fallback.destroy();
+  });
+});
+
+describe('RateLimiter failure policy', () => {
+  let storage: FlakyStorage;
+  let limiter: RateLimiter | undefined;
+
+  const config = { capacity: 2, refillRate: 2, refillInterval: 60000 };
+
+  beforeEach(() => {
+    storage = new FlakyStorage();
+  });
+
+  afterEach(() => {
+    limiter?.destroy();
+    limiter = undefined;
+    storage.memory.destroy();
+  });
+
+  it('should throw by default', async () => {
+    limiter = new RateLimiter({ ...config, storage });
+    storage.failing = true;
+
+    await expect(limiter.consume('key')).rejects.toThrow('connection refused');
+  });
+
+  it('should allow requests when failing open', async () => {
+    limiter = new RateLimiter({ ...config, storage, failure: { mode: 'fail-open' } });
+    storage.failing = true;
+
+    for (let i = 0; i < 3; i++) {
+      expect((await limiter.consume('key')).allowed).toBe(true);
+    }
+    expect((await limiter.check('key')).allowed).toBe(true);
+    await expect(limiter.get('key')).rejects.toThrow('connection refused');
+  });
+
+  it('should deny requests when failing closed', async () => {
+    limiter = new RateLimiter({ ...config, storage, failure: { mode: 'fail-closed' } });
+    storage.failing = true;
+
+    const result = await limiter.consume('key');
+
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfter).toBe(1);
+  });
+
+  it('should keep limiting in memory when falling back', async () => {
+    limiter = new RateLimiter({ ...config, storage, failure: { mode: 'fallback' } });
+    storage.failing = true;
+
+    expect((await limiter.consume('key')).allowed).toBe(true);
+    expect((await limiter.consume('key')).allowed).toBe(true);
+    expect((await limiter.consume('key')).allowed).toBe(false);
+  });
+
+  it('should fail open on timeouts and stop calling storage once the breaker opens', async () => {
+    vi.useFakeTimers();
+    const onOpen = vi.fn();
+    limiter = new RateLimiter({
+      ...config,
+      storage,
+      failure: {
+        mode: 'fail-open',
+        timeoutMs: 100,
+        breaker: { failureThreshold: 2, onOpen },
+      },
+    });
+    storage.hanging = true;
+
+    for (let i = 0; i < 2; i++) {
+      const pending = limiter.consume('key');
+      await vi.advanceTimersByTimeAsync(100);
+      expect((await pending).allowed).toBe(true);
+    }
+    expect(onOpen).toHaveBeenCalledWith(expect.any(StorageTimeoutError));
+
+    expect((await limiter.consume('key')).allowed).toBe(true);
+    expect(storage.calls).toBe(2);
+
+    vi.useRealTimers();
+  });
+
+  it('should keep the middleware up during a storage outage', async () => {
+    storage.failing = true;
+    const app = express();
+    app.use(createRateLimitMiddleware({ ...config, storage, failure: { mode: 'fail-open' } }));
+    app.get('/test', (_req, res) => res.json({ success: true }));
+
+    const response = await request(app).get('/test');
+
+    expect(response.status).toBe(200);
+  });
+});
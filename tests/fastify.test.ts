@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { fastifyRateLimit } from '../src/fastify';
+import { MemoryStorage } from '../src/storage/memory';
+
+describe('Fastify plugin', () => {
+  let app: FastifyInstance;
+
+  beforeEach(() => {
+    app = Fastify();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('basic rate limiting', () => {
+    it('should allow requests under the limit and set headers', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 5,
+        refillRate: 5,
+        refillInterval: 60000,
+      });
+      app.get('/test', async () => ({ success: true }));
+
+      const response = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true });
+      expect(response.headers['x-ratelimit-limit']).toBe('5');
+      expect(response.headers['x-ratelimit-remaining']).toBe('4');
+    });
+
+    it('should reject requests over the limit', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 2,
+        refillRate: 2,
+        refillInterval: 60000,
+      });
+      app.get('/test', async () => ({ success: true }));
+
+      await app.inject({ method: 'GET', url: '/test' });
+      await app.inject({ method: 'GET', url: '/test' });
+      const response = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(response.statusCode).toBe(429);
+      expect(response.json()).toEqual({ error: 'Too Many Requests', retryAfter: 60 });
+      expect(response.headers['retry-after']).toBe('60');
+    });
+
+    it('should apply to routes registered in child contexts', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+      });
+      await app.register(
+        async (child) => {
+          child.get('/test', async () => ({ success: true }));
+        },
+        { prefix: '/v1' }
+      );
+
+      await app.inject({ method: 'GET', url: '/v1/test' });
+      const response = await app.inject({ method: 'GET', url: '/v1/test' });
+
+      expect(response.statusCode).toBe(429);
+    });
+  });
+
+  describe('options', () => {
+    it('should use the key generator, skip and custom handler', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        keyGenerator: (request) => request.headers['x-api-key'] as string,
+        skip: (request) => request.headers['x-internal'] === 'true',
+        onRateLimited: (_request, reply) => {
+          reply.code(503).send({ message: 'Slow down' });
+        },
+      });
+      app.get('/test', async () => ({ success: true }));
+
+      await app.inject({ method: 'GET', url: '/test', headers: { 'x-api-key': 'a' } });
+      const limited = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'x-api-key': 'a' },
+      });
+      const other = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'x-api-key': 'b' },
+      });
+      const skipped = await app.inject({
+        method: 'GET',
+        url: '/test',
+        headers: { 'x-api-key': 'a', 'x-internal': 'true' },
+      });
+
+      expect(limited.statusCode).toBe(503);
+      expect(limited.json()).toEqual({ message: 'Slow down' });
+      expect(other.statusCode).toBe(200);
+      expect(skipped.statusCode).toBe(200);
+      expect(skipped.headers['x-ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should send IETF headers', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 10,
+        refillRate: 10,
+        refillInterval: 60000,
+        headersFormat: 'draft-7',
+      });
+      app.get('/test', async () => ({ success: true }));
+
+      const response = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(response.headers['ratelimit']).toBe('limit=10, remaining=9, reset=60');
+      expect(response.headers['ratelimit-policy']).toBe('10;w=60');
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should charge the response cost once the reply is sent', async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 2,
+        refillRate: 2,
+        refillInterval: 60000,
+        responseCost: (_request, reply, cost) => (reply.statusCode >= 500 ? 0 : cost),
+      });
+      app.get('/fail', async (_request, reply) => reply.code(503).send({ error: 'Down' }));
+
+      for (let i = 0; i < 4; i++) {
+        const response = await app.inject({ method: 'GET', url: '/fail' });
+        expect(response.statusCode).toBe(503);
+      }
+    });
+  });
+
+  describe('per-route config', () => {
+    beforeEach(async () => {
+      await app.register(fastifyRateLimit, {
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+      });
+    });
+
+    it('should let routes opt out', async () => {
+      app.get('/health', { config: { rateLimit: false } }, async () => 'ok');
+
+      await app.inject({ method: 'GET', url: '/health' });
+      const response = await app.inject({ method: 'GET', url: '/health' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should give routes their own limits', async () => {
+      app.get('/test', async () => ({ success: true }));
+      app.get(
+        '/search',
+        { config: { rateLimit: { capacity: 3, refillRate: 3, refillInterval: 60000 } } },
+        async () => ({ success: true })
+      );
+
+      await app.inject({ method: 'GET', url: '/test' });
+      const search = await app.inject({ method: 'GET', url: '/search' });
+      const limited = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(search.statusCode).toBe(200);
+      expect(search.headers['x-ratelimit-limit']).toBe('3');
+      expect(search.headers['x-ratelimit-remaining']).toBe('2');
+      expect(limited.statusCode).toBe(429);
+    });
+
+    it('should override settings while sharing the plugin limits', async () => {
+      app.get('/test', async () => ({ success: true }));
+      app.get(
+        '/bulk',
+        { config: { rateLimit: { headersFormat: 'draft-6' } } },
+        async () => ({ success: true })
+      );
+
+      const bulk = await app.inject({ method: 'GET', url: '/bulk' });
+      const test = await app.inject({ method: 'GET', url: '/test' });
+
+      expect(bulk.headers['ratelimit-limit']).toBe('1');
+      expect(test.statusCode).toBe(429);
+    });
+  });
+
+  it('should keep route limits apart in shared storage', async () => {
+    const storage = new MemoryStorage();
+    await app.register(fastifyRateLimit, {
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      storage,
+    });
+    app.get('/test', async () => ({ success: true }));
+    app.get(
+      '/search',
+      { config: { rateLimit: { capacity: 5, refillRate: 5, refillInterval: 60000 } } },
+      async () => ({ success: true })
+    );
+
+    await app.inject({ method: 'GET', url: '/test' });
+    const search = await app.inject({ method: 'GET', url: '/search' });
+
+    expect(search.statusCode).toBe(200);
+    expect(await storage.get('/search:127.0.0.1')).not.toBeNull();
+
+    storage.destroy();
+  });
+});
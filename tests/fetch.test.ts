@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withRateLimit } from '../src/fetch';
+
+const limit = { capacity: 2, refillRate: 2, refillInterval: 60000 };
+
+function get(ip = '1.2.3.4'): Request {
+  return new Request('https://example.com/api', { headers: { 'x-forwarded-for': ip } });
+}
+
+describe('withRateLimit', () => {
+  it('should pass requests through and add headers', async () => {
+    const handler = withRateLimit(async () => Response.json({ success: true }), limit);
+
+    const response = await handler(get());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(response.headers.get('x-ratelimit-limit')).toBe('2');
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('1');
+  });
+
+  it('should return 429 with the same body and headers as the Express middleware', async () => {
+    const inner = vi.fn(async () => Response.json({ success: true }));
+    const handler = withRateLimit(inner, limit);
+
+    await handler(get());
+    await handler(get());
+    const response = await handler(get());
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ error: 'Too Many Requests', retryAfter: 60 });
+    expect(response.headers.get('retry-after')).toBe('60');
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('0');
+    expect(inner).toHaveBeenCalledTimes(2);
+  });
+
+  it('should key by the forwarded client IP by default', async () => {
+    const handler = withRateLimit(async () => new Response('ok'), { ...limit, capacity: 1 });
+
+    await handler(get('1.1.1.1'));
+    const limited = await handler(get('1.1.1.1'));
+    const other = await handler(get('2.2.2.2'));
+
+    expect(limited.status).toBe(429);
+    expect(other.status).toBe(200);
+  });
+
+  it('should not trust X-Forwarded-For hops sent by the client', async () => {
+    const handler = withRateLimit(async () => new Response('ok'), { ...limit, capacity: 1 });
+
+    await handler(get('9.9.9.9, 1.1.1.1'));
+    const spoofed = await handler(get('8.8.8.8, 1.1.1.1'));
+
+    expect(spoofed.status).toBe(429);
+  });
+
+  it('should skip trusted proxies to find the client', async () => {
+    const handler = withRateLimit(async () => new Response('ok'), {
+      ...limit,
+      capacity: 1,
+      trustedProxies: ['10.0.0.0/8'],
+    });
+
+    await handler(get('6.6.6.6, 1.1.1.1, 10.0.0.1'));
+    const limited = await handler(get('7.7.7.7, 1.1.1.1, 10.0.0.2'));
+    const other = await handler(get('1.1.1.1, 2.2.2.2, 10.0.0.1'));
+
+    expect(limited.status).toBe(429);
+    expect(other.status).toBe(200);
+  });
+
+  it('should pass extra handler arguments through', async () => {
+    const handler = withRateLimit(
+      async (_request: Request, context: { params: { id: string } }) =>
+        Response.json({ id: context.params.id }),
+      limit
+    );
+
+    const response = await handler(get(), { params: { id: '42' } });
+
+    expect(await response.json()).toEqual({ id: '42' });
+  });
+
+  it('should add headers to responses with immutable headers', async () => {
+    const immutable = Response.redirect('https://example.com/other', 302);
+    const handler = withRateLimit(async () => immutable, limit);
+
+    const response = await handler(get());
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://example.com/other');
+    expect(response.headers.get('x-ratelimit-limit')).toBe('2');
+  });
+
+  it('should support custom keys, skip, cost and rejection', async () => {
+    const handler = withRateLimit(async () => new Response('ok'), {
+      capacity: 10,
+      refillRate: 10,
+      refillInterval: 60000,
+      headersFormat: 'draft-7',
+      keyGenerator: (request) => request.headers.get('x-api-key') ?? 'anonymous',
+      skip: (request) => request.method === 'OPTIONS',
+      cost: (request) => (request.url.endsWith('/export') ? 10 : 1),
+      onRateLimited: () => new Response('slow down', { status: 503 }),
+    });
+
+    const exported = await handler(
+      new Request('https://example.com/export', { headers: { 'x-api-key': 'a' } })
+    );
+    const limited = await handler(
+      new Request('https://example.com/api', { headers: { 'x-api-key': 'a' } })
+    );
+    const preflight = await handler(new Request('https://example.com/api', { method: 'OPTIONS' }));
+
+    expect(exported.headers.get('ratelimit')).toBe('limit=10, remaining=0, reset=60');
+    expect(limited.status).toBe(503);
+    expect(await limited.text()).toBe('slow down');
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect(preflight.status).toBe(200);
+    expect(preflight.headers.get('ratelimit')).toBeNull();
+  });
+
+  it('should refund server errors through responseCost', async () => {
+    const handler = withRateLimit(async () => new Response('down', { status: 503 }), {
+      ...limit,
+      capacity: 1,
+      responseCost: (_request, response, cost) => (response.status >= 500 ? 0 : cost),
+    });
+
+    for (let i = 0; i < 3; i++) {
+      const response = await handler(get());
+      expect(response.status).toBe(503);
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { FixedWindow } from '../src/algorithms/fixed-window';
+import { MemoryStorage } from '../src/storage/memory';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+
+const HOUR = 3600000;
+// 2024-01-01T10:20:00Z
+const NOW = Date.UTC(2024, 0, 1, 10, 20);
+
+describe('FixedWindow', () => {
+  let storage: MemoryStorage;
+  let window: FixedWindow;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    storage = new MemoryStorage();
+    window = new FixedWindow({ capacity: 3, windowMs: HOUR }, storage);
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('counting', () => {
+    it('should allow up to capacity per window', async () => {
+      for (let i = 0; i < 3; i++) {
+        const result = await window.consume('user-1');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(2 - i);
+      }
+
+      const result = await window.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should reset on the wall-clock boundary', async () => {
+      await window.consume('user-1', 3);
+
+      vi.setSystemTime(Date.UTC(2024, 0, 1, 10, 59, 59));
+      expect((await window.consume('user-1')).allowed).toBe(false);
+
+      vi.setSystemTime(Date.UTC(2024, 0, 1, 11, 0));
+      const result = await window.consume('user-1');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+    });
+
+    it('should not count rejected requests', async () => {
+      await window.consume('user-1', 2);
+      expect((await window.consume('user-1', 2)).allowed).toBe(false);
+      expect((await window.check('user-1')).remaining).toBe(1);
+    });
+  });
+
+  describe('resetAt and retryAfter', () => {
+    it('should report the window end as resetAt', async () => {
+      const result = await window.consume('user-1');
+      expect(result.resetAt).toBe(Date.UTC(2024, 0, 1, 11, 0));
+    });
+
+    it('should report retryAfter until the window ends', async () => {
+      await window.consume('user-1', 3);
+
+      const result = await window.consume('user-1');
+      expect(result.retryAfter).toBe(40 * 60);
+    });
+
+    it('should expire state at the window end', async () => {
+      await window.consume('user-1');
+
+      vi.advanceTimersByTime(40 * 60000);
+      expect(await storage.get('user-1')).toBeNull();
+    });
+  });
+
+  describe('UTC offset', () => {
+    it('should align daily windows to local midnight', async () => {
+      const daily = new FixedWindow(
+        { capacity: 1, windowMs: 24 * HOUR, utcOffsetMinutes: 330 },
+        storage
+      );
+
+      // 10:20Z is 15:50 in UTC+5:30; next local midnight is 18:30Z
+      const result = await daily.consume('user-1');
+      expect(result.resetAt).toBe(Date.UTC(2024, 0, 1, 18, 30));
+    });
+
+    it('should handle negative offsets', async () => {
+      const daily = new FixedWindow(
+        { capacity: 1, windowMs: 24 * HOUR, utcOffsetMinutes: -300 },
+        storage
+      );
+
+      // 10:20Z is 05:20 in UTC-5; next local midnight is 05:00Z the next day
+      const result = await daily.consume('user-1');
+      expect(result.resetAt).toBe(Date.UTC(2024, 0, 2, 5, 0));
+    });
+  });
+
+  describe('middleware', () => {
+    it('should report the window boundary in X-RateLimit-Reset', async () => {
+      const app = express();
+      app.use(
+        createRateLimitMiddleware({
+          algorithm: 'fixed-window',
+          capacity: 1000,
+          windowMs: HOUR,
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      expect(response.headers['x-ratelimit-limit']).toBe('1000');
+      expect(response.headers['x-ratelimit-reset']).toBe(
+        String(Date.UTC(2024, 0, 1, 11, 0) / 1000)
+      );
+    });
+  });
+
+  describe('refund and penalize', () => {
+    it('should keep the count between zero and capacity', async () => {
+      await window.consume('user-1', 2);
+
+      expect((await window.refund('user-1', 5)).state?.count).toBe(0);
+      expect((await window.penalize('user-1', 5000)).state?.count).toBe(3);
+    });
+  });
+});
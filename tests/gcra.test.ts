@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { Gcra } from '../src/algorithms/gcra';
+import { MemoryStorage } from '../src/storage/memory';
+import { RateLimiter } from '../src';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+
+describe('Gcra', () => {
+  let storage: MemoryStorage;
+  let gcra: Gcra;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorage();
+    // 1 request every 200ms, bursts of up to 5
+    gcra = new Gcra({ capacity: 5, refillRate: 5, refillInterval: 1000 }, storage);
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('burst tolerance', () => {
+    it('should start with full capacity', async () => {
+      const result = await gcra.check('user-1');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(5);
+    });
+
+    it('should allow a burst up to capacity', async () => {
+      for (let i = 0; i < 5; i++) {
+        const result = await gcra.consume('user-1');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(4 - i);
+      }
+
+      const result = await gcra.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should store only the theoretical arrival time', async () => {
+      const now = Date.now();
+      await gcra.consume('user-1', 2);
+
+      expect(await storage.get('user-1')).toEqual({ tat: now + 400 });
+    });
+  });
+
+  describe('smooth pacing', () => {
+    it('should free one request per emission interval', async () => {
+      await gcra.consume('user-1', 5);
+
+      vi.advanceTimersByTime(199);
+      expect((await gcra.consume('user-1')).allowed).toBe(false);
+
+      vi.advanceTimersByTime(1);
+      expect((await gcra.consume('user-1')).allowed).toBe(true);
+      expect((await gcra.consume('user-1')).allowed).toBe(false);
+    });
+
+    it('should sustain exactly the configured rate', async () => {
+      await gcra.consume('user-1', 5);
+
+      let allowed = 0;
+      for (let ms = 0; ms < 1000; ms += 10) {
+        vi.advanceTimersByTime(10);
+        if ((await gcra.consume('user-1')).allowed) {
+          allowed++;
+        }
+      }
+
+      expect(allowed).toBe(5);
+    });
+
+    it('should recover capacity after idling', async () => {
+      await gcra.consume('user-1', 5);
+
+      vi.advanceTimersByTime(600);
+      expect((await gcra.check('user-1')).remaining).toBe(3);
+
+      vi.advanceTimersByTime(10000);
+      expect((await gcra.check('user-1')).remaining).toBe(5);
+    });
+
+    it('should not move the arrival time when rejected', async () => {
+      await gcra.consume('user-1', 5);
+      for (let i = 0; i < 3; i++) {
+        await gcra.consume('user-1');
+      }
+
+      vi.advanceTimersByTime(200);
+      expect((await gcra.consume('user-1')).allowed).toBe(true);
+    });
+  });
+
+  describe('resetAt and retryAfter', () => {
+    it('should report fractional retryAfter', async () => {
+      await gcra.consume('user-1', 5);
+      vi.advanceTimersByTime(50);
+
+      const result = await gcra.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBeCloseTo(0.15);
+    });
+
+    it('should scale retryAfter with cost', async () => {
+      await gcra.consume('user-1', 5);
+
+      const result = await gcra.consume('user-1', 3);
+      expect(result.retryAfter).toBeCloseTo(0.6);
+    });
+
+    it('should report resetAt when the burst is fully available', async () => {
+      const now = Date.now();
+      const result = await gcra.consume('user-1', 3);
+
+      expect(result.resetAt).toBe(now + 600);
+    });
+
+    it('should handle fractional emission intervals', async () => {
+      const thirds = new Gcra({ capacity: 3, refillRate: 3, refillInterval: 1000 }, storage);
+
+      for (let i = 0; i < 3; i++) {
+        expect((await thirds.consume('user-2')).allowed).toBe(true);
+      }
+      expect((await thirds.consume('user-2')).allowed).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect((await thirds.check('user-2')).remaining).toBe(3);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should be selectable through the algorithm option', async () => {
+      const limiter = new RateLimiter({
+        algorithm: 'gcra',
+        capacity: 1,
+        refillRate: 10,
+        refillInterval: 1000,
+      });
+
+      expect((await limiter.consume('user-1')).allowed).toBe(true);
+      const denied = await limiter.consume('user-1');
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfter).toBeCloseTo(0.1);
+
+      limiter.destroy();
+    });
+
+    it('should round Retry-After up to whole seconds in the middleware', async () => {
+      const app = express();
+      app.use(
+        createRateLimitMiddleware({
+          algorithm: 'gcra',
+          capacity: 1,
+          refillRate: 10,
+          refillInterval: 1000,
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      await request(app).get('/test');
+      const response = await request(app).get('/test');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('1');
+    });
+  });
+
+  describe('refund and penalize', () => {
+    it('should move the arrival time back on refund, never before now', async () => {
+      await gcra.consume('user-1', 3);
+
+      expect((await gcra.refund('user-1', 2)).remaining).toBe(4);
+      const status = await gcra.refund('user-1', 10);
+      expect(status.remaining).toBe(5);
+      expect(status.state).toEqual({ tat: Date.now() });
+    });
+
+    it('should move the arrival time forward on penalize, at most a full burst', async () => {
+      const status = await gcra.penalize('user-1', 10);
+      expect(status.remaining).toBe(0);
+      expect(status.state).toEqual({ tat: Date.now() + 1000 });
+
+      vi.advanceTimersByTime(200);
+      expect((await gcra.consume('user-1')).allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { honoRateLimit } from '../src/hono';
+
+function get(app: Hono, path = '/api', headers: Record<string, string> = {}): Promise<Response> {
+  return Promise.resolve(
+    app.request(path, { headers: { 'x-forwarded-for': '1.2.3.4', ...headers } })
+  );
+}
+
+describe('honoRateLimit', () => {
+  it('should set headers on allowed responses', async () => {
+    const app = new Hono();
+    app.use(honoRateLimit({ capacity: 2, refillRate: 2, refillInterval: 60000 }));
+    app.get('/api', (c) => c.json({ success: true }));
+
+    const response = await get(app);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true });
+    expect(response.headers.get('x-ratelimit-remaining')).toBe('1');
+  });
+
+  it('should reject requests over the limit', async () => {
+    const app = new Hono();
+    app.use(honoRateLimit({ capacity: 1, refillRate: 1, refillInterval: 60000 }));
+    app.get('/api', (c) => c.json({ success: true }));
+
+    await get(app);
+    const response = await get(app);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ error: 'Too Many Requests', retryAfter: 60 });
+    expect(response.headers.get('retry-after')).toBe('60');
+  });
+
+  it('should key by the right-most untrusted X-Forwarded-For hop', async () => {
+    const app = new Hono();
+    app.use(
+      honoRateLimit({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        trustedProxies: ['10.0.0.1'],
+      })
+    );
+    app.get('/api', (c) => c.text('ok'));
+
+    await get(app, '/api', { 'x-forwarded-for': '9.9.9.9, 1.2.3.4, 10.0.0.1' });
+    const spoofed = await get(app, '/api', { 'x-forwarded-for': '8.8.8.8, 1.2.3.4, 10.0.0.1' });
+
+    expect(spoofed.status).toBe(429);
+  });
+
+  it('should take the Hono context in callbacks', async () => {
+    const app = new Hono();
+    app.use(
+      '/api/*',
+      honoRateLimit({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        keyGenerator: (c) => c.req.header('x-api-key') ?? 'anonymous',
+        skip: (c) => c.req.path === '/api/health',
+        onRateLimited: (c, result) => c.text(`retry in ${result.retryAfter}s`, 503),
+      })
+    );
+    app.get('/api/*', (c) => c.text('ok'));
+
+    await get(app, '/api/data', { 'x-api-key': 'a' });
+    const limited = await get(app, '/api/data', { 'x-api-key': 'a' });
+    const other = await get(app, '/api/data', { 'x-api-key': 'b' });
+    const health = await get(app, '/api/health', { 'x-api-key': 'a' });
+
+    expect(limited.status).toBe(503);
+    expect(await limited.text()).toBe('retry in 60s');
+    expect(limited.headers.get('x-ratelimit-limit')).toBe('1');
+    expect(other.status).toBe(200);
+    expect(health.status).toBe(200);
+  });
+
+  it('should settle the response cost after the handler', async () => {
+    const app = new Hono();
+    app.use(
+      honoRateLimit({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        responseCost: (c, cost) => (c.res.status >= 500 ? 0 : cost),
+      })
+    );
+    app.get('/api', (c) => c.text('down', 503));
+
+    for (let i = 0; i < 3; i++) {
+      expect((await get(app)).status).toBe(503);
+    }
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import type { Request } from 'express';
+import {
+  ipKey,
+  headerKey,
+  jwtClaimKey,
+  combineKeys,
+  normalizeIp,
+} from '../src/middleware';
+
+function fakeRequest(options: {
+  ip?: string;
+  remoteAddress?: string;
+  headers?: Record<string, string>;
+  path?: string;
+}): Request {
+  return {
+    ip: options.ip,
+    socket: { remoteAddress: options.remoteAddress ?? options.ip },
+    headers: options.headers ?? {},
+    path: options.path ?? '/',
+  } as unknown as Request;
+}
+
+function jwt(payload: object): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode(payload)}.signature`;
+}
+
+describe('normalizeIp', () => {
+  it('should group IPv6 addresses by prefix', () => {
+    expect(normalizeIp('2001:db8:1:2:3:4:5:6')).toBe('2001:db8:1:2::/64');
+    expect(normalizeIp('2001:db8:1:2:ffff::1')).toBe('2001:db8:1:2::/64');
+    expect(normalizeIp('2001:db8:1:2ff::1', 56)).toBe('2001:db8:1:200::/56');
+    expect(normalizeIp('2001:DB8::1', 128)).toBe('2001:db8::1');
+  });
+
+  it('should keep IPv4 addresses, including IPv4-mapped IPv6', () => {
+    expect(normalizeIp('192.0.2.1')).toBe('192.0.2.1');
+    expect(normalizeIp('::ffff:192.0.2.1')).toBe('192.0.2.1');
+  });
+
+  it('should return anything else unchanged', () => {
+    expect(normalizeIp('unknown')).toBe('unknown');
+    expect(normalizeIp('1:2:3')).toBe('1:2:3');
+    expect(normalizeIp('256.0.0.1')).toBe('256.0.0.1');
+  });
+});
+
+describe('ipKey', () => {
+  it('should use req.ip grouped by subnet', () => {
+    const key = ipKey();
+
+    expect(key(fakeRequest({ ip: '2001:db8::1' }))).toBe('2001:db8::/64');
+    expect(key(fakeRequest({ ip: '2001:db8::2' }))).toBe('2001:db8::/64');
+    expect(key(fakeRequest({ ip: '::ffff:127.0.0.1' }))).toBe('127.0.0.1');
+  });
+
+  it('should take the last untrusted X-Forwarded-For hop', () => {
+    const key = ipKey({ trustedProxies: ['10.0.0.0/8', '2001:db8:ffff::/48'] });
+    const headers = { 'x-forwarded-for': '203.0.113.9, 198.51.100.7, 10.0.0.2' };
+
+    expect(key(fakeRequest({ ip: '10.0.0.1', remoteAddress: '10.0.0.1', headers }))).toBe(
+      '198.51.100.7'
+    );
+    const ipv6Request = fakeRequest({
+      remoteAddress: '2001:db8:ffff::1',
+      headers: { 'x-forwarded-for': '2001:db8:1::5' },
+    });
+    expect(key(ipv6Request)).toBe('2001:db8:1::/64');
+  });
+
+  it('should ignore X-Forwarded-For from untrusted peers', () => {
+    const key = ipKey({ trustedProxies: ['10.0.0.1'] });
+    const headers = { 'x-forwarded-for': '203.0.113.9' };
+
+    expect(key(fakeRequest({ remoteAddress: '198.51.100.7', headers }))).toBe('198.51.100.7');
+  });
+
+  it('should reject invalid trusted proxies', () => {
+    expect(() => ipKey({ trustedProxies: ['10.0.0.0/33'] })).toThrow(
+      'Invalid IP address or subnet: "10.0.0.0/33"'
+    );
+  });
+});
+
+describe('headerKey', () => {
+  it('should key by the header, falling back to the IP', () => {
+    const key = headerKey();
+
+    expect(key(fakeRequest({ ip: '192.0.2.1', headers: { 'x-api-key': 'abc' } }))).toBe(
+      'x-api-key:abc'
+    );
+    expect(key(fakeRequest({ ip: '192.0.2.1' }))).toBe('192.0.2.1');
+  });
+
+  it('should use a custom header and fallback', () => {
+    const key = headerKey('X-Tenant', { fallback: () => 'anonymous' });
+
+    expect(key(fakeRequest({ headers: { 'x-tenant': 'acme' } }))).toBe('x-tenant:acme');
+    expect(key(fakeRequest({}))).toBe('anonymous');
+  });
+});
+
+describe('jwtClaimKey', () => {
+  it('should key by the subject of a bearer token', () => {
+    const key = jwtClaimKey();
+    const headers = { authorization: `Bearer ${jwt({ sub: 'user-1' })}` };
+
+    expect(key(fakeRequest({ headers }))).toBe('sub:user-1');
+  });
+
+  it('should read other claims and headers', () => {
+    const key = jwtClaimKey({ claim: 'org', header: 'x-token' });
+
+    expect(key(fakeRequest({ headers: { 'x-token': jwt({ org: 42 }) } }))).toBe('org:42');
+  });
+
+  it('should fall back for missing, malformed or claimless tokens', () => {
+    const key = jwtClaimKey({ fallback: () => 'anonymous' });
+
+    expect(key(fakeRequest({}))).toBe('anonymous');
+    expect(key(fakeRequest({ headers: { authorization: 'Bearer not-a-jwt' } }))).toBe(
+      'anonymous'
+    );
+    expect(key(fakeRequest({ headers: { authorization: 'Bearer a.!!!.c' } }))).toBe('anonymous');
+    expect(
+      key(fakeRequest({ headers: { authorization: `Bearer ${jwt({ sub: { id: 1 } })}` } }))
+    ).toBe('anonymous');
+  });
+});
+
+describe('combineKeys', () => {
+  it('should join keys', () => {
+    const key = combineKeys((req) => req.path, headerKey());
+
+    expect(key(fakeRequest({ path: '/search', headers: { 'x-api-key': 'abc' } }))).toBe(
+      '/search|x-api-key:abc'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import Koa from 'koa';
+import request from 'supertest';
+import { koaRateLimit } from '../src/koa';
+
+describe('koaRateLimit', () => {
+  let app: Koa;
+
+  beforeEach(() => {
+    app = new Koa();
+  });
+
+  it('should set headers on allowed requests', async () => {
+    app.use(koaRateLimit({ capacity: 5, refillRate: 5, refillInterval: 60000 }));
+    app.use((ctx) => {
+      ctx.body = { success: true };
+    });
+
+    const response = await request(app.callback()).get('/test');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true });
+    expect(response.headers['x-ratelimit-limit']).toBe('5');
+    expect(response.headers['x-ratelimit-remaining']).toBe('4');
+  });
+
+  it('should respond with 429 over the limit', async () => {
+    let handled = 0;
+    app.use(koaRateLimit({ capacity: 1, refillRate: 1, refillInterval: 60000 }));
+    app.use((ctx) => {
+      handled++;
+      ctx.body = { success: true };
+    });
+
+    await request(app.callback()).get('/test');
+    const response = await request(app.callback()).get('/test');
+
+    expect(response.status).toBe(429);
+    expect(response.body).toEqual({ error: 'Too Many Requests', retryAfter: 60 });
+    expect(response.headers['retry-after']).toBe('60');
+    expect(handled).toBe(1);
+  });
+
+  it('should throw a 429 error keeping the headers', async () => {
+    let caught: unknown;
+    app.use(async (_ctx, next) => {
+      try {
+        await next();
+      } catch (error) {
+        caught = error;
+        throw error;
+      }
+    });
+    app.use(
+      koaRateLimit({ capacity: 1, refillRate: 1, refillInterval: 60000, throwOnLimit: true })
+    );
+    app.use((ctx) => {
+      ctx.body = { success: true };
+    });
+    app.silent = true;
+
+    await request(app.callback()).get('/test');
+    const response = await request(app.callback()).get('/test');
+
+    expect(response.status).toBe(429);
+    expect(response.text).toBe('Too Many Requests');
+    expect(response.headers['retry-after']).toBe('60');
+    expect(response.headers['x-ratelimit-remaining']).toBe('0');
+    expect(caught).toMatchObject({ status: 429, retryAfter: 60 });
+  });
+
+  it('should use the key generator, skip and custom handler', async () => {
+    app.use(
+      koaRateLimit({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        headersFormat: 'draft-7',
+        keyGenerator: (ctx) => ctx.get('x-api-key') || 'anonymous',
+        skip: (ctx) => ctx.path === '/health',
+        onRateLimited: (ctx) => {
+          ctx.status = 503;
+          ctx.body = 'slow down';
+        },
+      })
+    );
+    app.use((ctx) => {
+      ctx.body = 'ok';
+    });
+    const server = app.callback();
+
+    await request(server).get('/test').set('x-api-key', 'a');
+    const limited = await request(server).get('/test').set('x-api-key', 'a');
+    const other = await request(server).get('/test').set('x-api-key', 'b');
+    const health = await request(server).get('/health').set('x-api-key', 'a');
+
+    expect(limited.status).toBe(503);
+    expect(limited.text).toBe('slow down');
+    expect(limited.headers['ratelimit']).toBe('limit=1, remaining=0, reset=60');
+    expect(other.status).toBe(200);
+    expect(health.status).toBe(200);
+    expect(health.headers['ratelimit']).toBeUndefined();
+  });
+
+  it('should settle the response cost after downstream middleware', async () => {
+    app.use(
+      koaRateLimit({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        responseCost: (ctx, cost) => (ctx.status >= 500 ? 0 : cost),
+      })
+    );
+    app.use((ctx) => {
+      ctx.status = 503;
+      ctx.body = 'down';
+    });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request(app.callback()).get('/test')).status).toBe(503);
+    }
+  });
+});
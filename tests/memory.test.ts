@@ -49,6 +49,42 @@ describe('MemoryStorage', () => {
     });
   });
 
+  describe('update', () => {
+    it('should pass null to the updater for non-existent key', async () => {
+      const state = { tokens: 5, lastRefill: Date.now() };
+      const result = await storage.update('key-1', (current) => {
+        expect(current).toBeNull();
+        return state;
+      }, 10000);
+
+      expect(result).toEqual(state);
+      expect(await storage.get('key-1')).toEqual(state);
+    });
+
+    it('should leave state untouched when updater returns null', async () => {
+      const state = { tokens: 5, lastRefill: Date.now() };
+      await storage.set('key-1', state, 5000);
+
+      const result = await storage.update('key-1', () => null, 60000);
+      expect(result).toEqual(state);
+
+      // Original TTL still applies
+      vi.advanceTimersByTime(6000);
+      expect(await storage.get('key-1')).toBeNull();
+    });
+
+    it('should release the key when the updater throws', async () => {
+      await expect(
+        storage.update('key-1', () => {
+          throw new Error('boom');
+        }, 10000)
+      ).rejects.toThrow('boom');
+
+      const state = { tokens: 1, lastRefill: Date.now() };
+      expect(await storage.update('key-1', () => state, 10000)).toEqual(state);
+    });
+  });
+
   describe('TTL expiration', () => {
     it('should expire entries after TTL', async () => {
       const state = { tokens: 5, lastRefill: Date.now() };
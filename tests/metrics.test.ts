@@ -0,0 +1,223 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import {
+  RateLimiter,
+  MemoryStorage,
+  MetricsCollector,
+  type RateLimitEvent,
+  type StorageErrorEvent,
+} from '../src';
+import { createRateLimitMiddleware, createMetricsHandler } from '../src/middleware';
+
+describe('RateLimiter hooks', () => {
+  let limiter: RateLimiter;
+
+  afterEach(() => {
+    limiter.destroy();
+  });
+
+  const config = { capacity: 1, refillRate: 1, refillInterval: 60000 };
+
+  it('should report allowed and denied decisions', async () => {
+    const allowed: RateLimitEvent[] = [];
+    const denied: RateLimitEvent[] = [];
+    limiter = new RateLimiter({
+      ...config,
+      name: 'api',
+      hooks: {
+        onAllowed: (event) => allowed.push(event),
+        onDenied: (event) => denied.push(event),
+      },
+    });
+
+    await limiter.consume('user-1');
+    await limiter.consume('user-1');
+    await limiter.check('user-1');
+
+    expect(allowed).toHaveLength(1);
+    expect(allowed[0]).toMatchObject({ limiter: 'api', key: 'user-1', tokens: 1 });
+    expect(denied).toHaveLength(1);
+    expect(denied[0].result.allowed).toBe(false);
+  });
+
+  it('should report storage latency and errors', async () => {
+    const storage = new MemoryStorage();
+    const errors: StorageErrorEvent[] = [];
+    const onStorageLatency = vi.fn();
+    limiter = new RateLimiter({
+      ...config,
+      storage,
+      hooks: { onStorageLatency, onStorageError: (event) => errors.push(event) },
+    });
+
+    await limiter.consume('key');
+    expect(onStorageLatency).toHaveBeenCalledWith({
+      limiter: 'default',
+      operation: 'update',
+      durationMs: expect.any(Number),
+    });
+
+    vi.spyOn(storage, 'update').mockRejectedValueOnce(new Error('down'));
+    await expect(limiter.consume('key')).rejects.toThrow('down');
+    expect(errors).toEqual([{ limiter: 'default', operation: 'update', error: new Error('down') }]);
+
+    storage.destroy();
+  });
+
+  it('should call every hook set and ignore hooks that throw', async () => {
+    const onAllowed = vi.fn();
+    limiter = new RateLimiter({
+      ...config,
+      hooks: [
+        {
+          onAllowed: () => {
+            throw new Error('broken observer');
+          },
+        },
+        { onAllowed },
+      ],
+    });
+
+    expect((await limiter.consume('key')).allowed).toBe(true);
+    expect(onAllowed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count fail-open decisions as allowed', async () => {
+    const storage = new MemoryStorage();
+    vi.spyOn(storage, 'update').mockRejectedValue(new Error('down'));
+    const onAllowed = vi.fn();
+    const onStorageError = vi.fn();
+    limiter = new RateLimiter({
+      ...config,
+      storage,
+      failure: { mode: 'fail-open' },
+      hooks: { onAllowed, onStorageError },
+    });
+
+    await limiter.consume('key');
+
+    expect(onAllowed).toHaveBeenCalledTimes(1);
+    expect(onStorageError).toHaveBeenCalledTimes(1);
+
+    storage.destroy();
+  });
+});
+
+describe('MetricsCollector', () => {
+  it('should render decisions, storage errors and latency in Prometheus format', () => {
+    const metrics = new MetricsCollector({ buckets: [0.01, 0.1] });
+    const result = { allowed: true, remaining: 0, resetAt: 0 };
+
+    metrics.hooks.onAllowed!({ limiter: 'api', key: 'a', tokens: 1, result });
+    metrics.hooks.onAllowed!({ limiter: 'api', key: 'a', tokens: 1, result });
+    metrics.hooks.onDenied!({ limiter: 'api', key: 'a', tokens: 1, result });
+    metrics.hooks.onStorageError!({ limiter: 'api', operation: 'update', error: new Error() });
+    metrics.hooks.onStorageLatency!({ limiter: 'api', operation: 'update', durationMs: 5 });
+    metrics.hooks.onStorageLatency!({ limiter: 'api', operation: 'update', durationMs: 50 });
+    metrics.hooks.onStorageLatency!({ limiter: 'api', operation: 'update', durationMs: 500 });
+
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# HELP ratelimit_requests_total Rate limit decisions by outcome.',
+        '# TYPE ratelimit_requests_total counter',
+        'ratelimit_requests_total{limiter="api",outcome="allowed"} 2',
+        'ratelimit_requests_total{limiter="api",outcome="denied"} 1',
+        '# HELP ratelimit_storage_errors_total Storage operations that failed.',
+        '# TYPE ratelimit_storage_errors_total counter',
+        'ratelimit_storage_errors_total{limiter="api",operation="update"} 1',
+        '# HELP ratelimit_storage_duration_seconds Duration of storage operations.',
+        '# TYPE ratelimit_storage_duration_seconds histogram',
+        'ratelimit_storage_duration_seconds_bucket{limiter="api",operation="update",le="0.01"} 1',
+        'ratelimit_storage_duration_seconds_bucket{limiter="api",operation="update",le="0.1"} 2',
+        'ratelimit_storage_duration_seconds_bucket{limiter="api",operation="update",le="+Inf"} 3',
+        'ratelimit_storage_duration_seconds_sum{limiter="api",operation="update"} 0.555',
+        'ratelimit_storage_duration_seconds_count{limiter="api",operation="update"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should escape label values and use the prefix', () => {
+    const metrics = new MetricsCollector({ prefix: 'app_' });
+    const result = { allowed: true, remaining: 0, resetAt: 0 };
+
+    metrics.hooks.onAllowed!({ limiter: 'say "hi"\\\n', key: 'a', tokens: 1, result });
+
+    expect(metrics.toPrometheus()).toContain(
+      'app_requests_total{limiter="say \\"hi\\"\\\\\\n",outcome="allowed"} 1'
+    );
+  });
+
+  it('should track the most denied keys', () => {
+    const metrics = new MetricsCollector({ maxHotKeys: 2 });
+    const result = { allowed: false, remaining: 0, resetAt: 0 };
+    const deny = (key: string) =>
+      metrics.hooks.onDenied!({ limiter: 'api', key, tokens: 1, result });
+
+    deny('a');
+    deny('a');
+    deny('b');
+    deny('c'); // Replaces b, the coldest key, counting its denial too
+    deny('c');
+    deny('c');
+
+    expect(metrics.hotKeys('api')).toEqual([
+      { key: 'c', denied: 4 },
+      { key: 'a', denied: 2 },
+    ]);
+    expect(metrics.hotKeys('api', 1)).toEqual([{ key: 'c', denied: 4 }]);
+    expect(metrics.hotKeys('other')).toEqual([]);
+
+    metrics.reset();
+    expect(metrics.hotKeys('api')).toEqual([]);
+  });
+
+  it('should surface a key turning hot while cold keys churn', () => {
+    const metrics = new MetricsCollector({ maxHotKeys: 3 });
+    const result = { allowed: false, remaining: 0, resetAt: 0 };
+    const deny = (key: string) =>
+      metrics.hooks.onDenied!({ limiter: 'api', key, tokens: 1, result });
+
+    for (let i = 0; i < 5; i++) {
+      deny('early-1');
+      deny('early-2');
+    }
+    // Scanner keys each get denied once, evicting the coldest key
+    for (let i = 0; i < 50; i++) {
+      deny(`scanner-${i}`);
+      deny('attacker');
+    }
+
+    const [hottest] = metrics.hotKeys('api', 1);
+    expect(hottest.key).toBe('attacker');
+    // Inherited counts only ever overestimate
+    expect(hottest.denied).toBeGreaterThanOrEqual(50);
+  });
+
+  it('should be served by the Express metrics handler', async () => {
+    const metrics = new MetricsCollector();
+    const app = express();
+    app.get('/metrics', createMetricsHandler(metrics));
+    app.use(
+      createRateLimitMiddleware({
+        name: 'api',
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        hooks: metrics.hooks,
+      })
+    );
+    app.get('/test', (_req, res) => res.json({ success: true }));
+
+    await request(app).get('/test');
+    await request(app).get('/test');
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain('ratelimit_requests_total{limiter="api",outcome="allowed"} 1');
+    expect(response.text).toContain('ratelimit_requests_total{limiter="api",outcome="denied"} 1');
+    expect(response.text).toContain('ratelimit_storage_duration_seconds_count');
+  });
+});
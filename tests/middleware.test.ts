@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import express, { type Express } from 'express';
+import express, { type Express, type NextFunction, type Request, type Response } from 'express';
 import request from 'supertest';
 import { createRateLimitMiddleware } from '../src/middleware/express';
+import { RateLimiterError } from '../src/errors';
 
 describe('Express Middleware', () => {
   let app: Express;
@@ -102,6 +103,31 @@ describe('Express Middleware', () => {
       expect(response.headers['x-ratelimit-limit']).toBeUndefined();
       expect(response.headers['x-ratelimit-remaining']).toBeUndefined();
     });
+
+    it('should report the capacity resolved for the key', async () => {
+      const plans: Record<string, number> = { free: 10, pro: 1000 };
+      app.use(
+        createRateLimitMiddleware({
+          capacity: 10,
+          refillRate: 10,
+          refillInterval: 60000,
+          keyGenerator: (req) => req.headers['x-plan'] as string,
+          resolveLimits: (key) => ({
+            capacity: plans[key],
+            refillRate: plans[key],
+            refillInterval: 60000,
+          }),
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const free = await request(app).get('/test').set('x-plan', 'free');
+      const pro = await request(app).get('/test').set('x-plan', 'pro');
+
+      expect(free.headers['x-ratelimit-limit']).toBe('10');
+      expect(pro.headers['x-ratelimit-limit']).toBe('1000');
+      expect(pro.headers['x-ratelimit-remaining']).toBe('999');
+    });
   });
 
   describe('custom key generator', () => {
@@ -180,4 +206,185 @@ describe('Express Middleware', () => {
       expect(response.body.waitTime).toBeDefined();
     });
   });
+
+  describe('weighted cost', () => {
+    it('should charge a fixed cost per request', async () => {
+      app.use(
+        createRateLimitMiddleware({ capacity: 10, refillRate: 1, refillInterval: 1000, cost: 4 })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const first = await request(app).get('/test');
+      await request(app).get('/test');
+      const third = await request(app).get('/test');
+
+      expect(first.headers['x-ratelimit-remaining']).toBe('6');
+      expect(third.status).toBe(429);
+      expect(third.headers['x-ratelimit-remaining']).toBe('2');
+    });
+
+    it('should compute the cost per request', async () => {
+      app.use(
+        createRateLimitMiddleware({
+          capacity: 100,
+          refillRate: 1,
+          refillInterval: 1000,
+          cost: async (req) => (req.path === '/export' ? 50 : 1),
+        })
+      );
+      app.get('/health', (_req, res) => res.json({ success: true }));
+      app.get('/export', (_req, res) => res.json({ success: true }));
+
+      const health = await request(app).get('/health');
+      const exported = await request(app).get('/export');
+
+      expect(health.headers['x-ratelimit-remaining']).toBe('99');
+      expect(exported.headers['x-ratelimit-remaining']).toBe('49');
+    });
+
+    it.each([
+      ['NaN', 'abc'],
+      ['negative', '-1000'],
+    ])('should reject a %s cost without charging it', async (_label, n) => {
+      const errors: unknown[] = [];
+      app.use(
+        createRateLimitMiddleware({
+          capacity: 3,
+          refillRate: 1,
+          refillInterval: 1000,
+          cost: (req) => Number(req.query.n ?? 1),
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+      app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+        errors.push(error);
+        res.status(500).end();
+      });
+
+      expect((await request(app).get(`/test?n=${n}`)).status).toBe(500);
+      expect(errors[0]).toBeInstanceOf(RateLimiterError);
+
+      const next = await request(app).get('/test');
+      expect(next.headers['x-ratelimit-remaining']).toBe('2');
+    });
+
+    it('should charge the difference once the response finishes', async () => {
+      app.use(
+        createRateLimitMiddleware({
+          capacity: 100,
+          refillRate: 1,
+          refillInterval: 1000,
+          responseCost: (_req, res) => res.locals.items ?? 1,
+        })
+      );
+      app.get('/items', (_req, res) => {
+        res.locals.items = 20;
+        res.json({ success: true });
+      });
+
+      const first = await request(app).get('/items');
+      const second = await request(app).get('/items');
+
+      expect(first.headers['x-ratelimit-remaining']).toBe('99');
+      // 19 more charged for the first response, 1 upfront for the second
+      expect(second.headers['x-ratelimit-remaining']).toBe('79');
+    });
+
+    it('should refund server errors', async () => {
+      app.use(
+        createRateLimitMiddleware({
+          capacity: 2,
+          refillRate: 1,
+          refillInterval: 60000,
+          responseCost: (_req, res, cost) => (res.statusCode >= 500 ? 0 : cost),
+        })
+      );
+      app.get('/fail', (_req, res) => res.status(503).json({ error: 'Unavailable' }));
+
+      for (let i = 0; i < 5; i++) {
+        const response = await request(app).get('/fail');
+        expect(response.status).toBe(503);
+      }
+    });
+  });
+
+  describe('headers format', () => {
+    const limit = { capacity: 10, refillRate: 10, refillInterval: 60000 };
+
+    it('should send only legacy headers by default', async () => {
+      app.use(createRateLimitMiddleware(limit));
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      expect(response.headers['x-ratelimit-limit']).toBe('10');
+      expect(response.headers['ratelimit']).toBeUndefined();
+      expect(response.headers['ratelimit-policy']).toBeUndefined();
+    });
+
+    it('should send draft-6 headers with delta-seconds reset', async () => {
+      app.use(createRateLimitMiddleware({ ...limit, headersFormat: 'draft-6' }));
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      expect(response.headers['ratelimit-limit']).toBe('10');
+      expect(response.headers['ratelimit-remaining']).toBe('9');
+      expect(response.headers['ratelimit-reset']).toBe('60');
+      expect(response.headers['ratelimit-policy']).toBe('10;w=60');
+      expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should send the combined draft-7 header', async () => {
+      app.use(createRateLimitMiddleware({ ...limit, headersFormat: 'draft-7' }));
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      expect(response.headers['ratelimit']).toBe('limit=10, remaining=9, reset=60');
+      expect(response.headers['ratelimit-policy']).toBe('10;w=60');
+      expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+
+    it('should send legacy and draft-7 headers for both', async () => {
+      app.use(createRateLimitMiddleware({ ...limit, headersFormat: 'both' }));
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      expect(response.headers['x-ratelimit-remaining']).toBe('9');
+      expect(response.headers['ratelimit']).toBe('limit=10, remaining=9, reset=60');
+    });
+
+    it('should list every policy when several limits apply', async () => {
+      app.use(
+        createRateLimitMiddleware({
+          limits: [
+            { name: 'second', capacity: 5, refillRate: 5, refillInterval: 1000 },
+            { name: 'hour', algorithm: 'fixed-window', capacity: 1000, windowMs: 3600000 },
+          ],
+          headersFormat: 'draft-7',
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const response = await request(app).get('/test');
+
+      // The per-second limit has the fewest remaining
+      expect(response.headers['ratelimit']).toBe('limit=5, remaining=4, reset=1');
+      expect(response.headers['ratelimit-policy']).toBe('5;w=1, 1000;w=3600');
+    });
+
+    it('should send Retry-After with IETF headers', async () => {
+      app.use(createRateLimitMiddleware({ ...limit, capacity: 1, headersFormat: 'draft-7' }));
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      await request(app).get('/test');
+      const response = await request(app).get('/test');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['ratelimit']).toBe('limit=1, remaining=0, reset=60');
+      expect(response.headers['retry-after']).toBe('60');
+    });
+  });
 });
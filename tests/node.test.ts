@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import { withNodeRateLimit } from '../src/node';
+import type { NodeRateLimitOptions } from '../src/node';
+
+describe('withNodeRateLimit', () => {
+  const ok = (options: NodeRateLimitOptions) =>
+    withNodeRateLimit((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true }));
+    }, options);
+
+  it('should set headers on allowed requests', async () => {
+    const handler = ok({ capacity: 5, refillRate: 5, refillInterval: 60000 });
+
+    const response = await request(handler).get('/test');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ success: true });
+    expect(response.headers['x-ratelimit-limit']).toBe('5');
+    expect(response.headers['x-ratelimit-remaining']).toBe('4');
+  });
+
+  it('should respond with 429 over the limit', async () => {
+    const handler = ok({ capacity: 1, refillRate: 1, refillInterval: 60000 });
+
+    await request(handler).get('/test');
+    const response = await request(handler).get('/test');
+
+    expect(response.status).toBe(429);
+    expect(response.body).toEqual({ error: 'Too Many Requests', retryAfter: 60 });
+    expect(response.headers['retry-after']).toBe('60');
+  });
+
+  it('should use the key generator, skip and custom handler', async () => {
+    const handler = ok({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      keyGenerator: (req) => req.headers['x-api-key'] as string,
+      skip: (req) => req.url === '/health',
+      onRateLimited: (_req, res) => {
+        res.statusCode = 503;
+        res.end('Slow down');
+      },
+    });
+
+    await request(handler).get('/test').set('x-api-key', 'a');
+    const limited = await request(handler).get('/test').set('x-api-key', 'a');
+    const other = await request(handler).get('/test').set('x-api-key', 'b');
+    const skipped = await request(handler).get('/health').set('x-api-key', 'a');
+
+    expect(limited.status).toBe(503);
+    expect(limited.text).toBe('Slow down');
+    expect(other.status).toBe(200);
+    expect(skipped.status).toBe(200);
+    expect(skipped.headers['x-ratelimit-limit']).toBeUndefined();
+  });
+
+  it('should refund the response cost once the response finishes', async () => {
+    const handler = withNodeRateLimit(
+      (_req, res) => {
+        res.statusCode = 503;
+        res.end();
+      },
+      {
+        capacity: 2,
+        refillRate: 2,
+        refillInterval: 60000,
+        responseCost: (_req, res, cost) => (res.statusCode >= 500 ? 0 : cost),
+      }
+    );
+
+    for (let i = 0; i < 4; i++) {
+      const response = await request(handler).get('/test');
+      expect(response.status).toBe(503);
+    }
+  });
+
+  it('should send 500 when rate limiting fails', async () => {
+    const handler = ok({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      keyGenerator: () => {
+        throw new Error('no key');
+      },
+    });
+
+    const response = await request(handler).get('/test');
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should pass errors to a custom handler', async () => {
+    const errors: unknown[] = [];
+    const handler = withNodeRateLimit(
+      () => {
+        throw new Error('handler failed');
+      },
+      {
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        onError: (error, _req, res) => {
+          errors.push(error);
+          res.statusCode = 502;
+          res.end();
+        },
+      }
+    );
+
+    const response = await request(handler).get('/test');
+
+    expect(response.status).toBe(502);
+    expect(errors).toEqual([new Error('handler failed')]);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RateLimiter, MemoryStorage, QueueFullError, QueueTimeoutError } from '../src';
+import type { BucketState, StateUpdater } from '../src/storage/types';
+
+/**
+ * Memory storage whose updates can be slowed down
+ */
+class SlowStorage extends MemoryStorage {
+  delayMs = 0;
+
+  async update<TState = BucketState>(
+    key: string,
+    updater: StateUpdater<TState>,
+    ttlMs: number
+  ): Promise<TState | null> {
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    }
+    return super.update(key, updater, ttlMs);
+  }
+}
+
+describe('RateLimiter queueing', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter({
+      capacity: 2,
+      refillRate: 1,
+      refillInterval: 1000,
+      queue: { maxQueueLength: 3 },
+    });
+  });
+
+  afterEach(() => {
+    limiter.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('should resolve immediately when tokens are available', async () => {
+      const result = await limiter.acquire('hooks');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(1);
+    });
+
+    it('should delay callers until tokens refill', async () => {
+      await limiter.consume('hooks', 2);
+
+      let resolved = false;
+      const pending = limiter.acquire('hooks').then((result) => {
+        resolved = true;
+        return result;
+      });
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(resolved).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await pending).allowed).toBe(true);
+    });
+
+    it.each([
+      { capacity: 1, refillRate: 1, refillInterval: 100 },
+      { algorithm: 'sliding-window-log' as const, capacity: 1, windowMs: 100 },
+    ])('should wait exactly for sub-second limits (%o)', async (config) => {
+      const fast = new RateLimiter(config);
+      const start = Date.now();
+      const servedAt: number[] = [];
+
+      for (let i = 0; i < 4; i++) {
+        void fast.acquire('fast').then(() => servedAt.push(Date.now() - start));
+      }
+      await vi.advanceTimersByTimeAsync(300);
+
+      // One every 100ms, not one per second
+      expect(servedAt).toEqual([0, 100, 200, 300]);
+      fast.destroy();
+    });
+
+    it('should serve waiters in FIFO order', async () => {
+      await limiter.consume('hooks', 2);
+      const order: string[] = [];
+
+      const first = limiter.acquire('hooks', { tokens: 2 }).then(() => order.push('first'));
+      const second = limiter.acquire('hooks').then(() => order.push('second'));
+
+      // One token after 1s is enough for `second`, but it must not overtake `first`
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(order).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await first;
+      expect(order).toEqual(['first']);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await second;
+      expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should not let new callers overtake waiting ones', async () => {
+      await limiter.consume('hooks', 2);
+      const order: string[] = [];
+      const waiting = limiter.acquire('hooks').then(() => order.push('waiting'));
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await waiting;
+      const late = limiter.acquire('hooks').then(() => order.push('late'));
+      await vi.advanceTimersByTimeAsync(1000);
+      await late;
+
+      expect(order).toEqual(['waiting', 'late']);
+    });
+
+    it('should reject when the queue is full', async () => {
+      await limiter.consume('hooks', 2);
+      const waiting = [1, 2, 3].map(() => limiter.acquire('hooks'));
+
+      await expect(limiter.acquire('hooks')).rejects.toBeInstanceOf(QueueFullError);
+
+      await vi.advanceTimersByTimeAsync(3000);
+      await Promise.all(waiting);
+    });
+
+    it('should reject with QueueTimeoutError after maxWaitMs', async () => {
+      await limiter.consume('hooks', 2);
+      const pending = limiter.acquire('hooks', { tokens: 2, maxWaitMs: 1500 });
+      const assertion = expect(pending).rejects.toBeInstanceOf(QueueTimeoutError);
+
+      await vi.advanceTimersByTimeAsync(1500);
+      await assertion;
+    });
+
+    it('should serve the next waiter when the head times out', async () => {
+      await limiter.consume('hooks', 2);
+      const head = limiter.acquire('hooks', { tokens: 2, maxWaitMs: 500 });
+      const headAssertion = expect(head).rejects.toBeInstanceOf(QueueTimeoutError);
+      const next = limiter.acquire('hooks');
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await headAssertion;
+      expect((await next).allowed).toBe(true);
+    });
+
+    it('should reject with the abort reason when aborted', async () => {
+      await limiter.consume('hooks', 2);
+      const controller = new AbortController();
+      const pending = limiter.acquire('hooks', { signal: controller.signal });
+
+      controller.abort(new Error('shutting down'));
+
+      await expect(pending).rejects.toThrow('shutting down');
+    });
+
+    it('should refund tokens consumed for a waiter that aborted meanwhile', async () => {
+      const storage = new SlowStorage();
+      const slow = new RateLimiter({ storage, capacity: 2, refillRate: 1, refillInterval: 1000 });
+      await slow.consume('hooks', 2);
+      const controller = new AbortController();
+      const pending = slow.acquire('hooks', { signal: controller.signal });
+      const assertion = expect(pending).rejects.toThrow('gave up');
+      await vi.advanceTimersByTimeAsync(1);
+
+      // Abort while the drain is consuming the refilled token
+      storage.delayMs = 50;
+      await vi.advanceTimersByTimeAsync(1010);
+      controller.abort(new Error('gave up'));
+      await assertion;
+      await vi.advanceTimersByTimeAsync(100);
+
+      storage.delayMs = 0;
+      expect((await slow.check('hooks')).remaining).toBe(1);
+      slow.destroy();
+      storage.destroy();
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        limiter.acquire('hooks', { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect((await limiter.check('hooks')).remaining).toBe(2);
+    });
+
+    it('should reject waiters when the limiter is destroyed', async () => {
+      await limiter.consume('hooks', 2);
+      const pending = limiter.acquire('hooks');
+      await vi.advanceTimersByTimeAsync(1);
+
+      limiter.destroy();
+
+      await expect(pending).rejects.toThrow('destroyed');
+    });
+  });
+
+  describe('schedule', () => {
+    it('should run the function once allowed and return its result', async () => {
+      await limiter.consume('hooks', 2);
+      const fn = vi.fn(async () => 'sent');
+
+      const pending = limiter.schedule('hooks', fn);
+      expect(fn).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(await pending).toBe('sent');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the configured default maxWaitMs', async () => {
+      const strict = new RateLimiter({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        queue: { maxWaitMs: 100 },
+      });
+      await strict.consume('hooks');
+      const fn = vi.fn();
+
+      const pending = strict.schedule('hooks', fn);
+      const assertion = expect(pending).rejects.toBeInstanceOf(QueueTimeoutError);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      expect(fn).not.toHaveBeenCalled();
+      strict.destroy();
+    });
+  });
+});
@@ -0,0 +1,480 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { lua, lauxlib, lualib, to_luastring, to_jsstring } from 'fengari';
+import { RedisStorage, fromNodeRedis, type RedisClient } from '../src/storage/redis';
+import { TokenBucket } from '../src/algorithms/token-bucket';
+import { RateLimiter } from '../src';
+
+interface Entry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * In-process Redis stand-in that runs EVAL scripts on a real Lua VM
+ *
+ * Implements the subset used by RedisStorage: GET, SET (with PX), DEL,
+ * PEXPIRE and cjson, with Redis' Lua <-> reply conversion rules.
+ */
+class FakeRedis implements RedisClient {
+  readonly store = new Map<string, Entry>();
+  readonly scripts: string[] = [];
+  private readonly L = lauxlib.luaL_newstate();
+  private nativeError: unknown = null;
+
+  constructor() {
+    lualib.luaL_openlibs(this.L);
+    this.registerRedis();
+    this.registerCjson();
+  }
+
+  async eval(script: string, numKeys: number, ...args: string[]): Promise<unknown> {
+    this.scripts.push(script);
+    const L = this.L;
+    this.pushValue(args.slice(0, numKeys));
+    lua.lua_setglobal(L, to_luastring('KEYS'));
+    this.pushValue(args.slice(numKeys));
+    lua.lua_setglobal(L, to_luastring('ARGV'));
+
+    if (lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK) {
+      throw new Error(to_jsstring(lua.lua_tostring(L, -1)));
+    }
+    if (lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      const message = to_jsstring(lauxlib.luaL_tolstring(L, -1));
+      lua.lua_settop(L, 0);
+      const nativeError = this.nativeError;
+      this.nativeError = null;
+      throw nativeError ?? new Error(message);
+    }
+    const reply = this.toReply(-1);
+    lua.lua_settop(L, 0);
+    return reply;
+  }
+
+  ttl(key: string): number | null {
+    const entry = this.read(key);
+    return entry?.expiresAt == null ? null : entry.expiresAt - Date.now();
+  }
+
+  private read(key: string): Entry | null {
+    const entry = this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private command(args: string[]): string | number | null {
+    const [name, key] = args;
+    switch (name.toUpperCase()) {
+      case 'GET':
+        return this.read(key)?.value ?? null;
+      case 'SET': {
+        const px = args.findIndex((a, i) => i > 2 && a.toUpperCase() === 'PX');
+        this.store.set(key, {
+          value: args[2],
+          expiresAt: px === -1 ? null : Date.now() + Number(args[px + 1]),
+        });
+        return 'OK';
+      }
+      case 'DEL':
+        return this.store.delete(key) ? 1 : 0;
+      case 'PEXPIRE': {
+        const entry = this.read(key);
+        if (!entry) {
+          return 0;
+        }
+        entry.expiresAt = Date.now() + Number(args[2]);
+        return 1;
+      }
+      default:
+        throw new Error(`FakeRedis: unsupported command ${name}`);
+    }
+  }
+
+  /**
+   * Expose a JS function to Lua, surfacing JS exceptions from eval
+   */
+  private pushFunction(fn: () => void): void {
+    lua.lua_pushjsfunction(this.L, () => {
+      try {
+        fn();
+        return 1;
+      } catch (error) {
+        this.nativeError = error;
+        return lauxlib.luaL_error(this.L, to_luastring(String(error)));
+      }
+    });
+  }
+
+  private registerRedis(): void {
+    const L = this.L;
+    lua.lua_newtable(L);
+    this.pushFunction(() => {
+      const args: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(L); i++) {
+        args.push(to_jsstring(lua.lua_tostring(L, i)));
+      }
+      const result = this.command(args);
+      if (result === null) {
+        // Redis converts a nil bulk reply to false
+        lua.lua_pushboolean(L, false);
+      } else if (result === 'OK') {
+        lua.lua_newtable(L);
+        lua.lua_pushstring(L, to_luastring('OK'));
+        lua.lua_setfield(L, -2, to_luastring('ok'));
+      } else {
+        this.pushValue(result);
+      }
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+  }
+
+  private registerCjson(): void {
+    const L = this.L;
+    lua.lua_newtable(L);
+    this.pushFunction(() => {
+      this.pushValue(JSON.parse(to_jsstring(lua.lua_tostring(L, 1))));
+    });
+    lua.lua_setfield(L, -2, to_luastring('decode'));
+    this.pushFunction(() => {
+      lua.lua_pushstring(L, to_luastring(JSON.stringify(this.toJson(1))));
+    });
+    lua.lua_setfield(L, -2, to_luastring('encode'));
+    lua.lua_setglobal(L, to_luastring('cjson'));
+  }
+
+  private pushValue(value: unknown): void {
+    const L = this.L;
+    if (value === null || value === undefined) {
+      lua.lua_pushnil(L);
+    } else if (typeof value === 'number') {
+      // Lua integers in fengari are 32-bit, larger values (timestamps) are floats
+      if (Number.isInteger(value) && Math.abs(value) < 2 ** 31) {
+        lua.lua_pushinteger(L, value);
+      } else {
+        lua.lua_pushnumber(L, value);
+      }
+    } else if (typeof value === 'string') {
+      lua.lua_pushstring(L, to_luastring(value));
+    } else if (typeof value === 'boolean') {
+      lua.lua_pushboolean(L, value);
+    } else if (Array.isArray(value)) {
+      lua.lua_createtable(L, value.length, 0);
+      value.forEach((item, i) => {
+        this.pushValue(item);
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+    } else {
+      lua.lua_newtable(L);
+      for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+        this.pushValue(v);
+        lua.lua_setfield(L, -2, to_luastring(k));
+      }
+    }
+  }
+
+  /**
+   * Mirror cjson.encode: sequences become arrays, anything else (including
+   * an empty table) becomes an object, numbers keep 14 significant digits
+   */
+  private toJson(index: number): unknown {
+    const L = this.L;
+    const idx = lua.lua_absindex(L, index);
+    switch (lua.lua_type(L, idx)) {
+      case lua.LUA_TNUMBER:
+        return Number(lua.lua_tonumber(L, idx).toPrecision(14));
+      case lua.LUA_TSTRING:
+        return to_jsstring(lua.lua_tostring(L, idx));
+      case lua.LUA_TBOOLEAN:
+        return lua.lua_toboolean(L, idx);
+      case lua.LUA_TTABLE: {
+        const entries: [unknown, unknown][] = [];
+        lua.lua_pushnil(L);
+        while (lua.lua_next(L, idx) !== 0) {
+          const key =
+            lua.lua_type(L, -2) === lua.LUA_TNUMBER
+              ? lua.lua_tonumber(L, -2)
+              : to_jsstring(lua.lua_tostring(L, -2));
+          entries.push([key, this.toJson(-1)]);
+          lua.lua_pop(L, 1);
+        }
+        const isArray =
+          entries.length > 0 &&
+          entries.every(([k]) => typeof k === 'number') &&
+          entries.length === lua.lua_rawlen(L, idx);
+        if (isArray) {
+          return entries
+            .sort(([a], [b]) => (a as number) - (b as number))
+            .map(([, v]) => v);
+        }
+        return Object.fromEntries(entries.map(([k, v]) => [String(k), v]));
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Mirror Redis' Lua -> RESP conversion (numbers truncate to integers)
+   */
+  private toReply(index: number): unknown {
+    const L = this.L;
+    const idx = lua.lua_absindex(L, index);
+    switch (lua.lua_type(L, idx)) {
+      case lua.LUA_TNUMBER:
+        return Math.trunc(lua.lua_tonumber(L, idx));
+      case lua.LUA_TSTRING:
+        return to_jsstring(lua.lua_tostring(L, idx));
+      case lua.LUA_TBOOLEAN:
+        return lua.lua_toboolean(L, idx) ? 1 : null;
+      case lua.LUA_TTABLE: {
+        const items: unknown[] = [];
+        for (let i = 1; ; i++) {
+          lua.lua_rawgeti(L, idx, i);
+          if (lua.lua_isnil(L, -1)) {
+            lua.lua_pop(L, 1);
+            break;
+          }
+          items.push(this.toReply(-1));
+          lua.lua_pop(L, 1);
+        }
+        return items;
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+describe('RedisStorage', () => {
+  let redis: FakeRedis;
+  let storage: RedisStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    redis = new FakeRedis();
+    storage = new RedisStorage({ client: redis });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('basic operations', () => {
+    it('should return null for non-existent key', async () => {
+      expect(await storage.get('non-existent')).toBeNull();
+    });
+
+    it('should store and retrieve bucket state', async () => {
+      const state = { tokens: 5, lastRefill: Date.now() };
+      await storage.set('key-1', state, 10000);
+
+      expect(await storage.get('key-1')).toEqual(state);
+    });
+
+    it('should delete entries', async () => {
+      await storage.set('key-1', { tokens: 5, lastRefill: Date.now() }, 10000);
+      await storage.delete('key-1');
+
+      expect(await storage.get('key-1')).toBeNull();
+    });
+
+    it('should prefix keys', async () => {
+      const prefixed = new RedisStorage({ client: redis, keyPrefix: 'app:' });
+      await prefixed.set('key-1', { tokens: 1, lastRefill: 0 }, 10000);
+      await storage.set('key-1', { tokens: 2, lastRefill: 0 }, 10000);
+
+      expect([...redis.store.keys()].sort()).toEqual(['app:key-1', 'ratelimit:key-1']);
+    });
+
+    it('should expire entries after TTL', async () => {
+      await storage.set('key-1', { tokens: 5, lastRefill: Date.now() }, 5000);
+
+      vi.advanceTimersByTime(4000);
+      expect(await storage.get('key-1')).not.toBeNull();
+
+      vi.advanceTimersByTime(2000);
+      expect(await storage.get('key-1')).toBeNull();
+    });
+  });
+
+  describe('update', () => {
+    it('should create, modify and leave state untouched', async () => {
+      await storage.update('key-1', () => ({ tokens: 3, lastRefill: 0 }), 10000);
+      await storage.update(
+        'key-1',
+        (current) => ({ tokens: (current?.tokens ?? 0) + 1, lastRefill: 0 }),
+        10000
+      );
+      const untouched = await storage.update('key-1', () => null, 10000);
+
+      expect(untouched).toEqual({ tokens: 4, lastRefill: 0 });
+      expect(await storage.get('key-1')).toEqual({ tokens: 4, lastRefill: 0 });
+    });
+
+    it('should retry when another writer changes the key', async () => {
+      let calls = 0;
+      await storage.update(
+        'key-1',
+        async (current) => {
+          calls++;
+          if (calls === 1) {
+            // Concurrent write lands between our read and compare-and-set
+            await storage.set('key-1', { tokens: 10, lastRefill: 0 }, 10000);
+          }
+          return { tokens: (current?.tokens ?? 0) + 1, lastRefill: 0 };
+        },
+        10000
+      );
+
+      expect(calls).toBe(2);
+      expect(await storage.get('key-1')).toEqual({ tokens: 11, lastRefill: 0 });
+    });
+
+    it('should give up after maxUpdateRetries', async () => {
+      const limited = new RedisStorage({ client: redis, maxUpdateRetries: 2 });
+      let n = 0;
+
+      await expect(
+        limited.update(
+          'key-1',
+          async () => {
+            await limited.set('key-1', { tokens: n++, lastRefill: 0 }, 10000);
+            return { tokens: -1, lastRefill: 0 };
+          },
+          10000
+        )
+      ).rejects.toThrow('failed after 2 attempts');
+    });
+  });
+
+  describe('token bucket script', () => {
+    let bucket: TokenBucket;
+
+    beforeEach(() => {
+      bucket = new TokenBucket(
+        { capacity: 5, refillRate: 1, refillInterval: 1000 },
+        storage
+      );
+    });
+
+    it('should consume in a single round trip', async () => {
+      await bucket.consume('user-1');
+      expect(redis.scripts).toHaveLength(1);
+    });
+
+    it('should allow up to capacity and then reject', async () => {
+      for (let i = 0; i < 5; i++) {
+        const result = await bucket.consume('user-1');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(4 - i);
+      }
+
+      const result = await bucket.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+      expect(result.retryAfter).toBe(1);
+    });
+
+    it('should refill over time like the in-process algorithm', async () => {
+      await bucket.consume('user-1', 5);
+
+      vi.advanceTimersByTime(2500);
+      expect((await bucket.check('user-1')).remaining).toBe(2);
+
+      const result = await bucket.consume('user-1', 2);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+
+      // Partial interval is kept: next token arrives 500ms later
+      vi.advanceTimersByTime(500);
+      expect((await bucket.consume('user-1')).allowed).toBe(true);
+    });
+
+    it('should not modify state when rejected', async () => {
+      await bucket.consume('user-1', 4);
+      const before = redis.store.get('ratelimit:user-1');
+
+      const result = await bucket.consume('user-1', 2);
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(1);
+      expect(redis.store.get('ratelimit:user-1')).toEqual(before);
+    });
+
+    it('should refill continuously in continuous mode', async () => {
+      const continuous = new TokenBucket(
+        { capacity: 10, refillRate: 10, refillInterval: 1000, refillMode: 'continuous' },
+        storage
+      );
+      await continuous.consume('user-2', 10);
+
+      vi.advanceTimersByTime(150); // 1.5 tokens
+      expect((await continuous.consume('user-2')).allowed).toBe(true);
+      expect((await continuous.consume('user-2')).allowed).toBe(false);
+
+      vi.advanceTimersByTime(50);
+      const result = await continuous.consume('user-2');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+      expect(JSON.parse(redis.store.get('ratelimit:user-2')!.value).lastRefill).toBe(Date.now());
+    });
+
+    it('should set the bucket TTL', async () => {
+      await bucket.consume('user-1');
+      // (capacity / refillRate) * refillInterval * 2
+      expect(redis.ttl('ratelimit:user-1')).toBe(10000);
+    });
+
+    it('should refund and penalize state written by the script', async () => {
+      await bucket.consume('user-1', 4);
+
+      expect((await bucket.refund('user-1', 2)).remaining).toBe(3);
+      expect((await bucket.penalize('user-1', 1)).remaining).toBe(2);
+      expect((await bucket.consume('user-1', 2)).allowed).toBe(true);
+      expect((await bucket.consume('user-1')).allowed).toBe(false);
+
+      await bucket.reset('user-1');
+      expect(redis.store.has('ratelimit:user-1')).toBe(false);
+    });
+
+    it('should share limits between limiters on the same Redis', async () => {
+      const config = { capacity: 3, refillRate: 1, refillInterval: 60000 };
+      const a = new RateLimiter({ ...config, storage: new RedisStorage({ client: redis }) });
+      const b = new RateLimiter({ ...config, storage: new RedisStorage({ client: redis }) });
+
+      const results = [
+        await a.consume('user-1'),
+        await b.consume('user-1'),
+        await a.consume('user-1'),
+        await b.consume('user-1'),
+      ];
+
+      expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    });
+  });
+
+  describe('fromNodeRedis', () => {
+    it('should translate the eval call convention', async () => {
+      const calls: unknown[] = [];
+      const client = fromNodeRedis({
+        eval: async (script, options) => {
+          calls.push(options);
+          return redis.eval(script, options.keys.length, ...options.keys, ...options.arguments);
+        },
+      });
+      const nodeStorage = new RedisStorage({ client });
+
+      await nodeStorage.set('key-1', { tokens: 1, lastRefill: 0 }, 1000);
+
+      expect(calls).toEqual([
+        { keys: ['ratelimit:key-1'], arguments: ['{"tokens":1,"lastRefill":0}', '1000'] },
+      ]);
+      expect(await nodeStorage.get('key-1')).toEqual({ tokens: 1, lastRefill: 0 });
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import { createRulesMiddleware } from '../src/middleware/rules';
+import { validateRulesConfig, loadRulesConfig } from '../src/middleware/rules-config';
+import { MemoryStorage, RulesConfigError } from '../src/index';
+
+function createApp(middleware: express.RequestHandler): Express {
+  const app = express();
+  app.use(middleware);
+  app.all('*', (_req, res) => res.json({ ok: true }));
+  return app;
+}
+
+const minute = { refillRate: 1, refillInterval: 60000 };
+
+describe('Rules Middleware', () => {
+  describe('matching', () => {
+    it('should apply the first matching rule only', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          rules: [
+            { name: 'login', match: { method: 'POST', path: '/login' }, capacity: 1, ...minute },
+            { name: 'default', capacity: 3, ...minute },
+          ],
+        })
+      );
+
+      expect((await request(app).post('/login')).status).toBe(200);
+      expect((await request(app).post('/login')).status).toBe(429);
+      // GET /login falls through to the default rule
+      const response = await request(app).get('/login');
+      expect(response.status).toBe(200);
+      expect(response.headers['x-ratelimit-limit']).toBe('3');
+      expect(response.headers['x-ratelimit-remaining']).toBe('2');
+    });
+
+    it('should match path patterns', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          rules: [
+            { name: 'one', match: { path: '/api/*/export' }, capacity: 1, ...minute },
+            { name: 'deep', match: { path: '/admin/**' }, capacity: 1, ...minute },
+            { name: 'regex', match: { path: /^\/v\d+\// }, capacity: 1, ...minute },
+          ],
+        })
+      );
+
+      await request(app).get('/api/users/export');
+      expect((await request(app).get('/api/orders/export')).status).toBe(429);
+      // `*` doesn't cross segments, and unmatched requests aren't limited
+      const unmatched = await request(app).get('/api/a/b/export');
+      expect(unmatched.status).toBe(200);
+      expect(unmatched.headers['x-ratelimit-limit']).toBeUndefined();
+
+      await request(app).get('/admin/a/b/c');
+      expect((await request(app).get('/admin/x')).status).toBe(429);
+
+      await request(app).get('/v1/items');
+      expect((await request(app).get('/v2/items')).status).toBe(429);
+    });
+
+    it('should match header values, header presence and predicates', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          rules: [
+            { name: 'free', match: { headers: { 'X-Plan': 'free' } }, capacity: 1, ...minute },
+            { name: 'keyed', match: { headers: { 'x-api-key': true } }, capacity: 2, ...minute },
+            {
+              name: 'bots',
+              match: { when: (req) => /bot/i.test(req.get('user-agent') ?? '') },
+              capacity: 1,
+              ...minute,
+            },
+          ],
+        })
+      );
+
+      await request(app).get('/').set('X-Plan', 'free');
+      expect((await request(app).get('/').set('X-Plan', 'free')).status).toBe(429);
+
+      const keyed = await request(app).get('/').set('X-Plan', 'pro').set('X-API-Key', 'abc');
+      expect(keyed.headers['x-ratelimit-limit']).toBe('2');
+
+      await request(app).get('/').set('User-Agent', 'GoodBot');
+      expect((await request(app).get('/').set('User-Agent', 'GoodBot')).status).toBe(429);
+      expect((await request(app).get('/').set('User-Agent', 'curl')).status).toBe(200);
+    });
+  });
+
+  describe('keys and cost', () => {
+    it('should key each rule by its own key spec or generator', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          rules: [{ name: 'api', key: 'header:x-api-key', capacity: 1, ...minute }],
+        })
+      );
+
+      await request(app).get('/').set('X-API-Key', 'a');
+      expect((await request(app).get('/').set('X-API-Key', 'a')).status).toBe(429);
+      expect((await request(app).get('/').set('X-API-Key', 'b')).status).toBe(200);
+    });
+
+    it('should charge rule costs', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          rules: [
+            { name: 'bulk', match: { path: '/bulk' }, cost: 5, capacity: 10, ...minute },
+            {
+              name: 'search',
+              cost: (req) => Number(req.query.pages ?? 1),
+              capacity: 10,
+              ...minute,
+            },
+          ],
+        })
+      );
+
+      expect((await request(app).get('/bulk')).headers['x-ratelimit-remaining']).toBe('5');
+      const search = await request(app).get('/search?pages=3');
+      expect(search.headers['x-ratelimit-remaining']).toBe('7');
+    });
+
+    it('should keep rules apart in shared storage', async () => {
+      const storage = new MemoryStorage();
+      const app = createApp(
+        createRulesMiddleware({
+          storage,
+          keyGenerator: () => 'client',
+          evaluation: 'all-match',
+          rules: [
+            { name: 'a', capacity: 2, ...minute },
+            { name: 'b', capacity: 5, ...minute },
+          ],
+        })
+      );
+
+      const response = await request(app).get('/');
+      expect(response.headers['x-ratelimit-limit']).toBe('2');
+      expect(await storage.get('a:client')).not.toBeNull();
+      expect(await storage.get('b:client')).not.toBeNull();
+      storage.destroy();
+    });
+  });
+
+  describe('all-match evaluation', () => {
+    it('should require every matching rule to allow the request', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          evaluation: 'all-match',
+          keyGenerator: () => 'client',
+          rules: [
+            { name: 'burst', capacity: 5, ...minute },
+            { name: 'writes', match: { method: ['POST', 'PUT'] }, capacity: 1, ...minute },
+          ],
+        })
+      );
+
+      expect((await request(app).post('/')).headers['x-ratelimit-remaining']).toBe('0');
+      expect((await request(app).put('/')).status).toBe(429);
+
+      // The denied PUT's burst token was refunded: 5 - 1 (POST) - 1 (this GET)
+      const response = await request(app).get('/');
+      expect(response.headers['x-ratelimit-limit']).toBe('5');
+      expect(response.headers['x-ratelimit-remaining']).toBe('3');
+    });
+
+    it('should pass the denying rule to onRateLimited', async () => {
+      const app = createApp(
+        createRulesMiddleware({
+          evaluation: 'all-match',
+          rules: [
+            { name: 'wide', capacity: 10, ...minute },
+            { name: 'narrow', capacity: 1, ...minute },
+          ],
+          onRateLimited: (_req, res, result, rule) => {
+            res.status(503).json({ rule: rule?.name, allowed: result.allowed });
+          },
+        })
+      );
+
+      await request(app).get('/');
+      const response = await request(app).get('/');
+      expect(response.status).toBe(503);
+      expect(response.body).toEqual({ rule: 'narrow', allowed: false });
+    });
+  });
+
+  it('should settle the response cost of each charged rule', async () => {
+    const app = express();
+    app.use(
+      createRulesMiddleware({
+        evaluation: 'all-match',
+        keyGenerator: () => 'client',
+        rules: [
+          { name: 'a', capacity: 5, ...minute },
+          { name: 'b', capacity: 5, ...minute },
+        ],
+        responseCost: (_req, res, cost) => (res.statusCode >= 500 ? 0 : cost),
+      })
+    );
+    app.get('/fail', (_req, res) => res.status(500).end());
+    app.get('/ok', (_req, res) => res.end());
+
+    await request(app).get('/fail');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await request(app).get('/ok');
+    expect(response.headers['x-ratelimit-remaining']).toBe('4');
+  });
+
+  it('should validate the rules when created', () => {
+    expect(() =>
+      createRulesMiddleware({
+        rules: [{ name: 'broken', capacity: 0, refillRate: 1, refillInterval: 1000 }],
+      })
+    ).toThrow(RulesConfigError);
+  });
+});
+
+describe('validateRulesConfig', () => {
+  it('should accept valid rules', () => {
+    const config = {
+      evaluation: 'all-match',
+      rules: [
+        {
+          name: 'a',
+          match: { path: '/a/**', method: 'GET' },
+          key: 'ip+jwt:sub',
+          capacity: 5,
+          ...minute,
+        },
+        { name: 'b', algorithm: 'fixed-window', capacity: 5, windowMs: 1000 },
+        {
+          name: 'c',
+          limits: [
+            { name: 'burst', capacity: 5, ...minute },
+            { name: 'daily', algorithm: 'sliding-window-counter', capacity: 100, windowMs: 864e5 },
+          ],
+        },
+      ],
+    };
+
+    expect(validateRulesConfig(config)).toBe(config);
+  });
+
+  it('should report every problem with its location', () => {
+    let error: RulesConfigError | undefined;
+    try {
+      validateRulesConfig({
+        evaluation: 'some-match',
+        rules: [
+          { name: 'a', capacity: -1, refillRate: 1 },
+          { name: 'a', algorithm: 'leaky-bucket', capacity: 1 },
+          {
+            name: 'c',
+            match: { method: 5, headers: { 'x-plan': 1 } },
+            key: 'cookie:session',
+            cost: -2,
+            mode: 'audit',
+            algorithm: 'fixed-window',
+            capacity: 1,
+          },
+          { name: '', limits: [{ capacity: 1, windowMs: 1000, algorithm: 'fixed-window' }] },
+        ],
+      });
+    } catch (caught) {
+      error = caught as RulesConfigError;
+    }
+
+    expect(error).toBeInstanceOf(RulesConfigError);
+    expect(error!.issues).toEqual([
+      "evaluation must be 'first-match' or 'all-match'",
+      'rules[0].capacity must be a positive number',
+      'rules[0].refillInterval must be a positive number',
+      'rules[1].algorithm must be one of token-bucket, sliding-window-log, ' +
+        'sliding-window-counter, fixed-window, gcra',
+      'rules[1].name "a" is used by an earlier rule',
+      'rules[2].match.method must be a string or an array of strings',
+      'rules[2].match.headers must map header names to strings or true',
+      'rules[2].key has an unknown key part "cookie:session"',
+      'rules[2].cost must be a non-negative number or a function',
+      "rules[2].mode must be 'enforce' or 'shadow'",
+      'rules[2].windowMs must be a positive number',
+      'rules[3].name must be a non-empty string',
+      'rules[3].limits[0].name must be a non-empty string',
+    ]);
+    expect(error!.message).toContain('  - rules[0].capacity must be a positive number');
+  });
+
+  it('should reject configs without rules', () => {
+    expect(() => validateRulesConfig(null)).toThrow(RulesConfigError);
+    expect(() => validateRulesConfig({ rules: [] })).toThrow('rules must be a non-empty array');
+  });
+});
+
+describe('loadRulesConfig', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rules-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should load JSON files', async () => {
+    const file = join(dir, 'rules.json');
+    await writeFile(
+      file,
+      JSON.stringify({ rules: [{ name: 'default', capacity: 1, ...minute }] })
+    );
+
+    const config = await loadRulesConfig(file);
+    const app = createApp(createRulesMiddleware(config));
+
+    await request(app).get('/');
+    expect((await request(app).get('/')).status).toBe(429);
+  });
+
+  it('should load YAML files with the given parser', async () => {
+    const file = join(dir, 'rules.yaml');
+    await writeFile(file, 'rules:\n  - name: default\n');
+    // Stand-in for a YAML library
+    const parse = (text: string): unknown => ({
+      rules: [{ name: text.match(/name: (\w+)/)![1], capacity: 1, ...minute }],
+    });
+
+    const config = await loadRulesConfig(file, { parse });
+    expect(config.rules[0].name).toBe('default');
+    await expect(loadRulesConfig(file)).rejects.toThrow('YAML files need a `parse` function');
+  });
+
+  it('should name the file in errors', async () => {
+    const invalid = join(dir, 'invalid.json');
+    await writeFile(invalid, JSON.stringify({ rules: [{ name: 'x', capacity: 1 }] }));
+    await expect(loadRulesConfig(invalid)).rejects.toThrow(
+      `Invalid rate limit rules in ${invalid}`
+    );
+
+    const malformed = join(dir, 'malformed.json');
+    await writeFile(malformed, '{ rules: ');
+    await expect(loadRulesConfig(malformed)).rejects.toThrow('could not be parsed');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { RateLimiter, MemoryStorage, type RateLimitEvent } from '../src';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+
+describe('shadow mode', () => {
+  let storage: MemoryStorage;
+
+  const config = { capacity: 2, refillRate: 2, refillInterval: 60000 };
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  afterEach(() => {
+    storage.destroy();
+  });
+
+  it('should allow every request, flagging would-be denials', async () => {
+    const denied: RateLimitEvent[] = [];
+    const limiter = new RateLimiter({
+      ...config,
+      storage,
+      name: 'new-limit',
+      mode: 'shadow',
+      onShadowDenied: (event) => denied.push(event),
+    });
+
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await limiter.consume('user-1'));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true]);
+    expect(results.map((result) => result.shadowDenied)).toEqual([undefined, undefined, true]);
+    expect(results[2].retryAfter).toBeUndefined();
+    expect(denied).toHaveLength(1);
+    expect(denied[0]).toMatchObject({ limiter: 'new-limit', key: 'user-1', tokens: 1 });
+    expect(denied[0].result).toMatchObject({ allowed: false, retryAfter: 60 });
+    expect(await limiter.check('user-1')).toMatchObject({ allowed: true, shadowDenied: true });
+  });
+
+  it('should keep its state apart from the enforced limit', async () => {
+    const enforced = new RateLimiter({ ...config, storage });
+    const shadow = new RateLimiter({ ...config, storage, mode: 'shadow' });
+
+    await shadow.consume('user-1', 2);
+
+    expect((await enforced.consume('user-1')).remaining).toBe(1);
+    expect((await shadow.get('user-1')).remaining).toBe(0);
+    expect(await storage.get('shadow:user-1')).not.toBeNull();
+  });
+
+  it('should record the real decisions in hooks', async () => {
+    const onDenied = vi.fn();
+    const limiter = new RateLimiter({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      storage,
+      mode: 'shadow',
+      hooks: { onDenied },
+    });
+
+    await limiter.consume('user-1');
+    await limiter.consume('user-1');
+
+    expect(onDenied).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let requests through the middleware without rate limit headers', async () => {
+    const onShadowDenied = vi.fn();
+    const app = express();
+    app.use(
+      createRateLimitMiddleware({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 60000,
+        mode: 'shadow',
+        onShadowDenied,
+        shadowHeader: 'X-RateLimit-Shadow',
+      })
+    );
+    app.get('/test', (_req, res) => res.json({ success: true }));
+
+    const first = await request(app).get('/test');
+    const second = await request(app).get('/test');
+
+    expect(first.status).toBe(200);
+    expect(first.headers['x-ratelimit-shadow']).toBeUndefined();
+    expect(second.status).toBe(200);
+    expect(second.headers['x-ratelimit-shadow']).toBe('denied');
+    expect(second.headers['x-ratelimit-limit']).toBeUndefined();
+    expect(second.headers['retry-after']).toBeUndefined();
+    expect(onShadowDenied).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { SlidingWindowCounter } from '../src/algorithms/sliding-window-counter';
+import { MemoryStorage } from '../src/storage/memory';
+import { createRateLimitMiddleware } from '../src/middleware/express';
+
+// Start of a window, so elapsed time within the window is easy to follow
+const WINDOW_START = 1_700_000_040_000;
+
+describe('SlidingWindowCounter', () => {
+  let storage: MemoryStorage;
+  let counter: SlidingWindowCounter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(WINDOW_START);
+    storage = new MemoryStorage();
+    counter = new SlidingWindowCounter({ capacity: 10, windowMs: 60000 }, storage);
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('current window', () => {
+    it('should start with full capacity', async () => {
+      const result = await counter.check('user-1');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(10);
+    });
+
+    it('should allow up to capacity and then reject', async () => {
+      for (let i = 0; i < 10; i++) {
+        const result = await counter.consume('user-1');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(9 - i);
+      }
+
+      const result = await counter.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should keep constant state per key', async () => {
+      await counter.consume('user-1', 7);
+      expect(await storage.get('user-1')).toEqual({
+        windowStart: WINDOW_START,
+        current: 7,
+        previous: 0,
+      });
+    });
+  });
+
+  describe('weighted previous window', () => {
+    it('should weight the previous window by its overlap', async () => {
+      await counter.consume('user-1', 10);
+
+      // 25% into the next window: 10 * 0.75 = 7.5 still counted
+      vi.setSystemTime(WINDOW_START + 60000 + 15000);
+      expect((await counter.check('user-1')).remaining).toBe(2);
+
+      // Halfway: 10 * 0.5 = 5 still counted
+      vi.setSystemTime(WINDOW_START + 60000 + 30000);
+      const result = await counter.consume('user-1', 5);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+      expect((await counter.consume('user-1')).allowed).toBe(false);
+    });
+
+    it('should forget counts older than the previous window', async () => {
+      await counter.consume('user-1', 10);
+
+      vi.setSystemTime(WINDOW_START + 120000);
+      expect((await counter.check('user-1')).remaining).toBe(10);
+    });
+
+    it('should not count rejected requests', async () => {
+      await counter.consume('user-1', 10);
+      await counter.consume('user-1', 3);
+
+      expect((await storage.get('user-1'))).toMatchObject({ current: 10 });
+    });
+  });
+
+  describe('resetAt and retryAfter', () => {
+    it('should report resetAt when both windows have slid out', async () => {
+      const result = await counter.consume('user-1');
+      expect(result.resetAt).toBe(WINDOW_START + 120000);
+    });
+
+    it('should report retryAfter until the previous window decays enough', async () => {
+      await counter.consume('user-1', 10);
+      vi.setSystemTime(WINDOW_START + 60000);
+
+      // Estimate is 10; one slot frees once 10% of the previous window has slid out
+      const result = await counter.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(6);
+
+      vi.advanceTimersByTime(6000);
+      expect((await counter.consume('user-1')).allowed).toBe(true);
+    });
+
+    it('should wait for the next window when the current one is full', async () => {
+      vi.setSystemTime(WINDOW_START + 45000);
+      await counter.consume('user-1', 10);
+
+      const result = await counter.consume('user-1');
+      expect(result.allowed).toBe(false);
+      // 15s until the window ends, then 10% of the next window (6s)
+      expect(result.retryAfter).toBe(21);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should plug into the Express middleware', async () => {
+      const app = express();
+      app.use(
+        createRateLimitMiddleware({
+          algorithm: 'sliding-window-counter',
+          capacity: 2,
+          windowMs: 60000,
+        })
+      );
+      app.get('/test', (_req, res) => res.json({ success: true }));
+
+      const first = await request(app).get('/test');
+      await request(app).get('/test');
+      const third = await request(app).get('/test');
+
+      expect(first.headers['x-ratelimit-limit']).toBe('2');
+      expect(first.headers['x-ratelimit-remaining']).toBe('1');
+      expect(third.status).toBe(429);
+    });
+  });
+
+  describe('refund and penalize', () => {
+    it('should refund the current window before the previous one', async () => {
+      await counter.consume('user-1', 4);
+      vi.advanceTimersByTime(60000);
+      await counter.consume('user-1', 2);
+
+      const status = await counter.refund('user-1', 3);
+      expect(status.state).toMatchObject({ current: 0, previous: 3 });
+    });
+
+    it('should not push the estimate past capacity on penalize', async () => {
+      const status = await counter.penalize('user-1', 100);
+      expect(status.remaining).toBe(0);
+      expect(status.state?.current).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SlidingWindowLog } from '../src/algorithms/sliding-window-log';
+import { MemoryStorage } from '../src/storage/memory';
+import { RateLimiter } from '../src';
+
+describe('SlidingWindowLog', () => {
+  let storage: MemoryStorage;
+  let log: SlidingWindowLog;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new MemoryStorage();
+    log = new SlidingWindowLog({ capacity: 3, windowMs: 60000 }, storage);
+  });
+
+  afterEach(() => {
+    storage.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('initial state', () => {
+    it('should start with full capacity', async () => {
+      const result = await log.check('user-1');
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(3);
+      expect(result.resetAt).toBe(Date.now());
+    });
+  });
+
+  describe('rolling window', () => {
+    it('should allow up to capacity within the window', async () => {
+      for (let i = 0; i < 3; i++) {
+        const result = await log.consume('user-1');
+        expect(result.allowed).toBe(true);
+        expect(result.remaining).toBe(2 - i);
+      }
+
+      const result = await log.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should never allow more than capacity in any rolling window', async () => {
+      await log.consume('user-1'); // t=0
+      vi.advanceTimersByTime(30000);
+      await log.consume('user-1'); // t=30s
+      await log.consume('user-1'); // t=30s
+
+      // A fixed window would have reset at t=60s; the log still counts t=30s
+      vi.advanceTimersByTime(30001);
+      expect((await log.consume('user-1')).allowed).toBe(true); // t=0 expired
+      expect((await log.consume('user-1')).allowed).toBe(false);
+
+      vi.advanceTimersByTime(30000);
+      expect((await log.consume('user-1')).allowed).toBe(true);
+    });
+
+    it('should not log rejected requests', async () => {
+      await log.consume('user-1', 3);
+      for (let i = 0; i < 5; i++) {
+        await log.consume('user-1');
+      }
+
+      vi.advanceTimersByTime(60001);
+      expect((await log.check('user-1')).remaining).toBe(3);
+    });
+
+    it('should consume multiple slots at once', async () => {
+      const result = await log.consume('user-1', 2);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(1);
+
+      expect((await log.consume('user-1', 2)).allowed).toBe(false);
+    });
+  });
+
+  describe('resetAt and retryAfter', () => {
+    it('should report resetAt when the newest request leaves the window', async () => {
+      const start = Date.now();
+      await log.consume('user-1');
+      vi.advanceTimersByTime(10000);
+      const result = await log.consume('user-1');
+
+      expect(result.resetAt).toBe(start + 10000 + 60000);
+    });
+
+    it('should report retryAfter until the oldest request expires', async () => {
+      await log.consume('user-1'); // t=0
+      vi.advanceTimersByTime(20000);
+      await log.consume('user-1', 2); // t=20s
+
+      vi.advanceTimersByTime(5000);
+      const result = await log.consume('user-1');
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(35); // t=0 leaves at t=60s
+    });
+
+    it('should account for multi-slot requests in retryAfter', async () => {
+      await log.consume('user-1'); // t=0
+      vi.advanceTimersByTime(20000);
+      await log.consume('user-1', 2); // t=20s
+
+      const result = await log.consume('user-1', 2);
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(60); // needs one of the t=20s requests to leave
+    });
+
+    it('should not include retryAfter when allowed', async () => {
+      const result = await log.consume('user-1');
+      expect(result.retryAfter).toBeUndefined();
+    });
+  });
+
+  describe('multiple keys', () => {
+    it('should track keys independently', async () => {
+      await log.consume('user-1', 3);
+      const result = await log.consume('user-2');
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+    });
+  });
+
+  describe('refund and penalize', () => {
+    it('should forget the most recent requests on refund', async () => {
+      await log.consume('user-1');
+      vi.advanceTimersByTime(1000);
+      await log.consume('user-1', 2);
+
+      const status = await log.refund('user-1', 2);
+      expect(status.remaining).toBe(2);
+      expect(status.state?.timestamps).toEqual([Date.now() - 1000]);
+    });
+
+    it('should log penalty requests without exceeding capacity', async () => {
+      const status = await log.penalize('user-1', 10);
+      expect(status.remaining).toBe(0);
+      expect(status.state?.timestamps).toHaveLength(3);
+      expect((await log.consume('user-1')).allowed).toBe(false);
+    });
+  });
+});
+
+describe('RateLimiter algorithm option', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should use the sliding window log when selected', async () => {
+    const limiter = new RateLimiter({
+      algorithm: 'sliding-window-log',
+      capacity: 2,
+      windowMs: 1000,
+    });
+
+    expect((await limiter.consume('user-1')).allowed).toBe(true);
+    expect((await limiter.consume('user-1')).allowed).toBe(true);
+    expect((await limiter.consume('user-1')).allowed).toBe(false);
+
+    vi.advanceTimersByTime(1001);
+    expect((await limiter.consume('user-1')).allowed).toBe(true);
+
+    limiter.destroy();
+  });
+
+  it('should refund, penalize, reset and report keys', async () => {
+    const limiter = new RateLimiter({
+      algorithm: 'sliding-window-log',
+      capacity: 3,
+      windowMs: 60000,
+    });
+    await limiter.consume('user-1', 3);
+
+    expect((await limiter.get('user-1')).remaining).toBe(0);
+    await limiter.reset('user-1');
+    expect((await limiter.get('user-1')).remaining).toBe(3);
+    expect((await limiter.penalize('user-1', 2)).remaining).toBe(1);
+    expect((await limiter.refund('user-1')).remaining).toBe(2);
+
+    limiter.destroy();
+  });
+});
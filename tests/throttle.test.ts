@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RateLimiter,
+  QueueTimeoutError,
+  throttle,
+  createThrottledFetch,
+  remoteLimitsFromHeaders,
+  type ThrottledFetch,
+} from '../src';
+
+describe('throttle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait for tokens instead of exceeding the limit', async () => {
+    const calls: number[] = [];
+    const throttled = throttle(async (n: number) => calls.push(n), {
+      capacity: 2,
+      refillRate: 1,
+      refillInterval: 1000,
+    });
+
+    const pending = [throttled(1), throttled(2), throttled(3)];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(calls).toEqual([1, 2, 3]);
+    await Promise.all(pending);
+
+    throttled.limiter.destroy();
+  });
+
+  it('should charge calls to their key and cost', async () => {
+    const limiter = new RateLimiter({ capacity: 5, refillRate: 5, refillInterval: 60000 });
+    const throttled = throttle(async (_user: string, items: number) => items, {
+      limiter,
+      key: (user) => user,
+      cost: (_user, items) => items,
+    });
+
+    await throttled('a', 4);
+    await throttled('b', 1);
+
+    expect((await limiter.get('a')).remaining).toBe(1);
+    expect((await limiter.get('b')).remaining).toBe(4);
+
+    limiter.destroy();
+  });
+
+  it('should give up after maxWaitMs', async () => {
+    const throttled = throttle(async () => 'ok', {
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      maxWaitMs: 500,
+    });
+
+    await throttled();
+    const pending = throttled();
+    const assertion = expect(pending).rejects.toBeInstanceOf(QueueTimeoutError);
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+
+    throttled.limiter.destroy();
+  });
+
+  it('should drain down to the remaining calls the remote reports', async () => {
+    const throttled = throttle(async (remaining: number) => remaining, {
+      capacity: 10,
+      refillRate: 10,
+      refillInterval: 60000,
+      adapt: (remaining) => ({ remaining }),
+    });
+
+    await throttled(3);
+
+    expect((await throttled.limiter.get('default')).remaining).toBe(3);
+
+    throttled.limiter.destroy();
+  });
+
+  it('should pause for the Retry-After the remote asks for', async () => {
+    const calls: number[] = [];
+    const throttled = throttle(
+      async (retryAfterMs?: number) => {
+        calls.push(Date.now());
+        return retryAfterMs;
+      },
+      {
+        capacity: 10,
+        refillRate: 10,
+        refillInterval: 1000,
+        adapt: (retryAfterMs) => ({ retryAfterMs }),
+      }
+    );
+
+    const start = Date.now();
+    await throttled(5000);
+    const next = throttled();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(calls[1] - start).toBe(5000);
+
+    throttled.limiter.destroy();
+  });
+});
+
+describe('remoteLimitsFromHeaders', () => {
+  it('should read Retry-After seconds and X-RateLimit-Remaining', () => {
+    const headers = new Headers({ 'retry-after': '30', 'x-ratelimit-remaining': '7' });
+
+    expect(remoteLimitsFromHeaders(headers)).toEqual({ retryAfterMs: 30000, remaining: 7 });
+  });
+
+  it('should read Retry-After dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    const headers = new Headers({ 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' });
+
+    expect(remoteLimitsFromHeaders(headers)).toEqual({ retryAfterMs: 10000 });
+    vi.useRealTimers();
+  });
+
+  it('should ignore missing and invalid headers', () => {
+    const headers = new Headers({ 'retry-after': 'soon', 'x-ratelimit-remaining': 'many' });
+
+    expect(remoteLimitsFromHeaders(headers)).toEqual({ retryAfterMs: undefined });
+    expect(remoteLimitsFromHeaders(new Headers())).toEqual({});
+  });
+});
+
+describe('createThrottledFetch', () => {
+  let throttledFetch: ThrottledFetch;
+  let requested: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    requested = [];
+  });
+
+  afterEach(() => {
+    throttledFetch.limiter.destroy();
+    vi.useRealTimers();
+  });
+
+  const fakeFetch = (headers: Record<string, string> = {}) =>
+    (async (input: Parameters<typeof fetch>[0]) => {
+      requested.push(String(input instanceof Request ? input.url : input));
+      return new Response('ok', { headers });
+    }) as typeof fetch;
+
+  it('should limit each host separately', async () => {
+    throttledFetch = createThrottledFetch({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 1000,
+      fetch: fakeFetch(),
+    });
+
+    const pending = [
+      throttledFetch('https://a.example.com/1'),
+      throttledFetch('https://a.example.com/2'),
+      throttledFetch(new Request('https://b.example.com/1')),
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requested).toEqual(['https://a.example.com/1', 'https://b.example.com/1']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(requested).toContain('https://a.example.com/2');
+    await Promise.all(pending);
+  });
+
+  it('should adapt to the remaining requests the remote reports', async () => {
+    throttledFetch = createThrottledFetch({
+      capacity: 10,
+      refillRate: 10,
+      refillInterval: 60000,
+      fetch: fakeFetch({ 'x-ratelimit-remaining': '2' }),
+    });
+
+    const response = await throttledFetch('https://api.example.com/items');
+
+    expect(await response.text()).toBe('ok');
+    expect((await throttledFetch.limiter.get('api.example.com')).remaining).toBe(2);
+  });
+
+  it('should hold requests while the remote asks to retry later', async () => {
+    throttledFetch = createThrottledFetch({
+      capacity: 10,
+      refillRate: 10,
+      refillInterval: 60000,
+      fetch: fakeFetch({ 'retry-after': '2' }),
+    });
+
+    await throttledFetch('https://api.example.com/items');
+    const next = throttledFetch('https://api.example.com/items');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(requested).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(requested).toHaveLength(2);
+  });
+});
@@ -1,19 +1,29 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TokenBucket } from '../src/algorithms/token-bucket';
-import type { StorageAdapter, BucketState } from '../src/storage/types';
+import type { StorageAdapter, BucketState, StateUpdater } from '../src/storage/types';
 
 // Mock storage for testing
 class MockStorage implements StorageAdapter {
-  private store = new Map<string, BucketState>();
+  private store = new Map<string, unknown>();
 
-  async get(key: string): Promise<BucketState | null> {
-    return this.store.get(key) ?? null;
+  async get<T = BucketState>(key: string): Promise<T | null> {
+    return (this.store.get(key) as T) ?? null;
   }
 
-  async set(key: string, state: BucketState): Promise<void> {
+  async set<T = BucketState>(key: string, state: T): Promise<void> {
     this.store.set(key, state);
   }
 
+  async update<T = BucketState>(key: string, updater: StateUpdater<T>): Promise<T | null> {
+    const existing = (this.store.get(key) as T) ?? null;
+    const next = await updater(existing);
+    if (next === null) {
+      return existing;
+    }
+    this.store.set(key, next);
+    return next;
+  }
+
   async delete(key: string): Promise<void> {
     this.store.delete(key);
   }
@@ -187,4 +197,253 @@ describe('TokenBucket', () => {
       expect(result.resetAt).toBeGreaterThanOrEqual(now);
     });
   });
+
+  describe('continuous refill mode', () => {
+    let continuous: TokenBucket;
+
+    beforeEach(() => {
+      // 100 tokens per minute, accruing one every 600ms
+      continuous = new TokenBucket(
+        { capacity: 100, refillRate: 100, refillInterval: 60000, refillMode: 'continuous' },
+        storage
+      );
+    });
+
+    it('should accrue tokens proportionally to elapsed time', async () => {
+      await continuous.consume('user-1', 100);
+
+      vi.advanceTimersByTime(6000);
+      expect((await continuous.check('user-1')).remaining).toBe(10);
+
+      vi.advanceTimersByTime(300);
+      expect((await continuous.check('user-1')).remaining).toBe(10);
+
+      vi.advanceTimersByTime(300);
+      expect((await continuous.check('user-1')).remaining).toBe(11);
+    });
+
+    it('should keep fractional tokens between requests', async () => {
+      await continuous.consume('user-1', 100);
+
+      vi.advanceTimersByTime(900); // 1.5 tokens
+      expect((await continuous.consume('user-1')).allowed).toBe(true);
+      expect((await continuous.consume('user-1')).allowed).toBe(false);
+
+      vi.advanceTimersByTime(300); // 0.5 + 0.5 tokens
+      expect((await continuous.consume('user-1')).allowed).toBe(true);
+    });
+
+    it('should record the last update as lastRefill', async () => {
+      await continuous.consume('user-1', 100);
+      vi.advanceTimersByTime(900);
+      await continuous.consume('user-1');
+
+      const state = await storage.get('user-1');
+      expect(state?.lastRefill).toBe(Date.now());
+      expect(state?.tokens).toBeCloseTo(0.5);
+    });
+
+    it('should report resetAt when the bucket is full again', async () => {
+      const now = Date.now();
+      const result = await continuous.consume('user-1', 10);
+
+      expect(result.resetAt).toBe(now + 6000);
+    });
+
+    it('should report retryAfter until the requested tokens accrue', async () => {
+      await continuous.consume('user-1', 100);
+
+      const single = await continuous.consume('user-1');
+      expect(single.allowed).toBe(false);
+      expect(single.retryAfter).toBe(1); // 600ms, rounded up
+
+      const bulk = await continuous.consume('user-1', 10);
+      expect(bulk.retryAfter).toBe(6);
+    });
+
+    it('should still cap tokens at capacity', async () => {
+      await continuous.consume('user-1', 50);
+
+      vi.advanceTimersByTime(120000);
+      expect((await continuous.check('user-1')).remaining).toBe(100);
+    });
+  });
+
+  describe('interval refill mode', () => {
+    it('should add nothing until a whole interval has elapsed', async () => {
+      const interval = new TokenBucket(
+        { capacity: 100, refillRate: 100, refillInterval: 60000, refillMode: 'interval' },
+        storage
+      );
+      await interval.consume('user-1', 100);
+
+      vi.advanceTimersByTime(59000);
+      const before = await interval.consume('user-1');
+      expect(before.allowed).toBe(false);
+      expect(before.retryAfter).toBe(1);
+
+      vi.advanceTimersByTime(1000);
+      expect((await interval.check('user-1')).remaining).toBe(100);
+    });
+  });
+
+  describe('refund, penalize, reset and get', () => {
+    it('should give tokens back after consuming', async () => {
+      await bucket.consume('user-1', 3);
+
+      const status = await bucket.refund('user-1', 2);
+      expect(status.remaining).toBe(4);
+      expect((await bucket.check('user-1')).remaining).toBe(4);
+    });
+
+    it('should not refund beyond capacity', async () => {
+      await bucket.consume('user-1');
+
+      const status = await bucket.refund('user-1', 10);
+      expect(status.remaining).toBe(5);
+      expect(status.state).toEqual({ tokens: 5, lastRefill: Date.now() });
+    });
+
+    it('should leave an unknown key untouched on refund', async () => {
+      const status = await bucket.refund('user-1');
+      expect(status.remaining).toBe(5);
+      expect(status.state).toBeNull();
+      expect(await storage.get('user-1')).toBeNull();
+    });
+
+    it('should take tokens as a penalty, stopping at empty', async () => {
+      const status = await bucket.penalize('user-1', 3);
+      expect(status.remaining).toBe(2);
+
+      const emptied = await bucket.penalize('user-1', 10);
+      expect(emptied.remaining).toBe(0);
+      expect(emptied.state?.tokens).toBe(0);
+
+      // Refills normally afterwards
+      vi.advanceTimersByTime(1000);
+      expect((await bucket.check('user-1')).remaining).toBe(1);
+    });
+
+    it('should restore full capacity on reset', async () => {
+      await bucket.consume('user-1', 5);
+      await bucket.reset('user-1');
+
+      expect(await storage.get('user-1')).toBeNull();
+      expect((await bucket.consume('user-1')).remaining).toBe(4);
+    });
+
+    it('should report the status derived from the stored state', async () => {
+      const now = Date.now();
+      await bucket.consume('user-1', 2);
+
+      expect(await bucket.get('user-1')).toEqual({
+        capacity: 5,
+        remaining: 3,
+        resetAt: now + 2000,
+        state: { tokens: 3, lastRefill: now },
+      });
+    });
+
+    it('should report a full bucket for an unknown key', async () => {
+      const status = await bucket.get('user-1');
+      expect(status).toEqual({ capacity: 5, remaining: 5, resetAt: Date.now(), state: null });
+    });
+  });
+
+  describe('per-key limits', () => {
+    const plans: Record<string, { capacity: number; refillRate: number }> = {
+      free: { capacity: 2, refillRate: 1 },
+      pro: { capacity: 10, refillRate: 5 },
+    };
+    const resolveLimits = vi.fn((key: string) => ({
+      ...plans[key.split(':')[0]],
+      refillInterval: 1000,
+    }));
+
+    beforeEach(() => {
+      resolveLimits.mockClear();
+    });
+
+    it('should apply the limits resolved for each key', async () => {
+      const planned = new TokenBucket(
+        { capacity: 5, refillRate: 1, refillInterval: 1000, resolveLimits },
+        storage
+      );
+
+      const free = await planned.consume('free:user-1');
+      const pro = await planned.consume('pro:user-2');
+
+      expect(free).toMatchObject({ remaining: 1, capacity: 2 });
+      expect(pro).toMatchObject({ remaining: 9, capacity: 10 });
+      expect((await planned.get('pro:user-2')).capacity).toBe(10);
+    });
+
+    it('should refill each key at its own rate', async () => {
+      const planned = new TokenBucket(
+        { capacity: 5, refillRate: 1, refillInterval: 1000, resolveLimits },
+        storage
+      );
+      await planned.consume('free:user-1', 2);
+      await planned.consume('pro:user-2', 10);
+
+      vi.advanceTimersByTime(1000);
+
+      expect((await planned.check('free:user-1')).remaining).toBe(1);
+      expect((await planned.check('pro:user-2')).remaining).toBe(5);
+    });
+
+    it('should accept async resolvers', async () => {
+      const planned = new TokenBucket(
+        {
+          capacity: 5,
+          refillRate: 1,
+          refillInterval: 1000,
+          resolveLimits: async () => ({ capacity: 3, refillRate: 1, refillInterval: 1000 }),
+        },
+        storage
+      );
+
+      expect((await planned.consume('user-1')).remaining).toBe(2);
+    });
+
+    it('should cache resolved limits per key', async () => {
+      const planned = new TokenBucket(
+        {
+          capacity: 5,
+          refillRate: 1,
+          refillInterval: 1000,
+          resolveLimits,
+          resolveCacheMs: 60000,
+        },
+        storage
+      );
+
+      await Promise.all([planned.consume('free:user-1'), planned.consume('free:user-1')]);
+      await planned.check('free:user-1');
+      await planned.consume('pro:user-2');
+      expect(resolveLimits).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(60000);
+      await planned.check('free:user-1');
+      expect(resolveLimits).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache failed lookups', async () => {
+      const flaky = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('plan service down'))
+        .mockResolvedValue({ capacity: 3, refillRate: 1, refillInterval: 1000 });
+      const planned = new TokenBucket(
+        { capacity: 5, refillRate: 1, refillInterval: 1000, resolveLimits: flaky },
+        storage
+      );
+
+      await expect(planned.consume('user-1')).rejects.toThrow('plan service down');
+      expect((await planned.consume('user-1')).remaining).toBe(2);
+    });
+
+    it('should use the configured limits without a resolver', async () => {
+      expect((await bucket.consume('user-1')).capacity).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMessageLimiter, type MessageLimiter } from '../src/node';
+
+class FakeSocket {
+  readyState = 1;
+  closedWith: [number | undefined, string | undefined] | null = null;
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = [code, reason];
+    this.readyState = 3;
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+describe('createMessageLimiter', () => {
+  let messages: MessageLimiter<FakeSocket>;
+
+  afterEach(() => {
+    messages.destroy();
+  });
+
+  it('should drop messages over the limit by default', async () => {
+    const limited: unknown[] = [];
+    messages = createMessageLimiter({
+      capacity: 2,
+      refillRate: 2,
+      refillInterval: 60000,
+      onLimited: (_socket, message, result) => limited.push([message, result?.allowed]),
+    });
+    const socket = new FakeSocket();
+    const received: string[] = [];
+    const onMessage = messages.wrap(socket, (data: string) => {
+      received.push(data);
+    });
+
+    onMessage('a');
+    onMessage('b');
+    onMessage('c');
+    await flush();
+
+    expect(received).toEqual(['a', 'b']);
+    expect(limited).toEqual([['c', false]]);
+    expect(socket.closedWith).toBeNull();
+  });
+
+  it('should limit each connection separately', async () => {
+    messages = createMessageLimiter({ capacity: 1, refillRate: 1, refillInterval: 60000 });
+    const received: string[] = [];
+    const first = messages.wrap(new FakeSocket(), (data: string) => {
+      received.push(data);
+    });
+    const second = messages.wrap(new FakeSocket(), (data: string) => {
+      received.push(data);
+    });
+
+    first('a');
+    first('b');
+    second('c');
+    await flush();
+
+    expect(received).toEqual(['a', 'c']);
+  });
+
+  it('should share a limit between sockets with the same key', async () => {
+    messages = createMessageLimiter({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      keyGenerator: () => 'user-1',
+    });
+    const received: string[] = [];
+    const first = messages.wrap(new FakeSocket(), (data: string) => {
+      received.push(data);
+    });
+    const second = messages.wrap(new FakeSocket(), (data: string) => {
+      received.push(data);
+    });
+
+    first('a');
+    await flush();
+    second('b');
+    await flush();
+
+    expect(received).toEqual(['a']);
+  });
+
+  it('should close the connection with a reason code', async () => {
+    messages = createMessageLimiter({
+      capacity: 1,
+      refillRate: 1,
+      refillInterval: 60000,
+      action: 'close',
+      closeReason: 'Too chatty',
+    });
+    const socket = new FakeSocket();
+    const received: string[] = [];
+    const onMessage = messages.wrap(socket, (data: string) => {
+      received.push(data);
+    });
+
+    onMessage('a');
+    onMessage('b');
+    onMessage('c');
+    await flush();
+
+    expect(received).toEqual(['a']);
+    expect(socket.closedWith).toEqual([1008, 'Too chatty']);
+  });
+
+  describe('delay', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should delay messages over the limit, keeping their order', async () => {
+      messages = createMessageLimiter({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 1000,
+        action: 'delay',
+      });
+      const received: string[] = [];
+      const onMessage = messages.wrap(new FakeSocket(), (data: string) => {
+        received.push(data);
+      });
+
+      onMessage('a');
+      onMessage('b');
+      onMessage('c');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(received).toEqual(['a']);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(received).toEqual(['a', 'b']);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(received).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should drop messages beyond the queue length', async () => {
+      const limited: unknown[] = [];
+      messages = createMessageLimiter({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 1000,
+        action: 'delay',
+        queue: { maxQueueLength: 2 },
+        onLimited: (_socket, message, result) => limited.push([message, result]),
+      });
+      const received: string[] = [];
+      const onMessage = messages.wrap(new FakeSocket(), (data: string) => {
+        received.push(data);
+      });
+
+      onMessage('a');
+      onMessage('b');
+      onMessage('c');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(received).toEqual(['a', 'b']);
+      expect(limited).toEqual([['c', undefined]]);
+    });
+
+    it('should drop messages that wait longer than maxWaitMs since arrival', async () => {
+      const limited: unknown[] = [];
+      messages = createMessageLimiter({
+        capacity: 1,
+        refillRate: 1,
+        refillInterval: 1000,
+        action: 'delay',
+        queue: { maxWaitMs: 1500 },
+        onLimited: (_socket, message) => limited.push(message),
+      });
+      const received: string[] = [];
+      const onMessage = messages.wrap(new FakeSocket(), (data: string) => {
+        received.push(data);
+      });
+
+      onMessage('a');
+      onMessage('b');
+      onMessage('c');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(received).toEqual(['a', 'b']);
+      expect(limited).toEqual(['c']);
+    });
+  });
+
+  it('should charge the message cost', async () => {
+    messages = createMessageLimiter({
+      capacity: 10,
+      refillRate: 10,
+      refillInterval: 60000,
+      cost: (message) => (message as string).length,
+    });
+    const received: string[] = [];
+    const onMessage = messages.wrap(new FakeSocket(), (data: string) => {
+      received.push(data);
+    });
+
+    onMessage('12345678');
+    onMessage('123');
+    onMessage('12');
+    await flush();
+
+    expect(received).toEqual(['12345678', '12']);
+  });
+
+  it('should close with 1011 when the handler fails', async () => {
+    messages = createMessageLimiter({ capacity: 5, refillRate: 5, refillInterval: 60000 });
+    const socket = new FakeSocket();
+    const onMessage = messages.wrap(socket, async (_data: string) => {
+      throw new Error('handler failed');
+    });
+
+    onMessage('a');
+    await flush();
+
+    expect(socket.closedWith).toEqual([1011, 'Internal error']);
+  });
+});
@@ -1,7 +1,15 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts', 'src/middleware/index.ts'],
+  entry: [
+    'src/index.ts',
+    'src/middleware/index.ts',
+    'src/fastify/index.ts',
+    'src/fetch/index.ts',
+    'src/hono/index.ts',
+    'src/koa/index.ts',
+    'src/node/index.ts',
+  ],
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,